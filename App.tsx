@@ -1,35 +1,288 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Send, Image as ImageIcon, Mic, Settings, Plus, X, Sparkles, Loader2, StopCircle, Headphones } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Send, Image as ImageIcon, Mic, Settings, Plus, X, Sparkles, Loader2, StopCircle, Headphones, PanelLeft, Images, Paperclip, BarChart3, Braces, Library } from 'lucide-react';
 import SettingsPanel from './components/SettingsPanel';
 import ChatMessageBubble from './components/ChatMessageBubble';
 import LiveVoiceMode from './components/LiveVoiceMode';
-import { ChatMessage, MessageRole, AppSettings, Attachment, ModelType } from './types';
-import { INITIAL_SETTINGS } from './constants';
-import { sendMessageToGemini, generateImageWithGemini, generateSpeech } from './services/geminiService';
+import ConversationSidebar from './components/ConversationSidebar';
+import ExportMenu from './components/ExportMenu';
+import ImageGallery from './components/ImageGallery';
+import UsageDashboard from './components/UsageDashboard';
+import KnowledgeLibrary from './components/KnowledgeLibrary';
+import SchemaPicker from './components/SchemaPicker';
+import { ChatMessage, MessageRole, AppSettings, Attachment, ModelType, Conversation, LiveTranscriptEntry, ImageAspectRatio, ModelPrice, TokenUsage, UsageKind, SettingsPreset, SavedSchema, KnowledgeReference } from './types';
+import { INITIAL_SETTINGS, DEFAULT_CONVERSATION_TITLE, IMAGE_ASPECT_RATIOS, MAX_IMAGE_VARIATIONS } from './constants';
+import { getProvider, getProviderFor } from './services/providers';
+import { loadConversations, saveConversation, deleteConversation, base64ToBlob } from './services/conversationStore';
+import { downloadBlob, parseConversationExport, slugify } from './services/exportService';
+import { SpeechPlayback, encodeWav, playSpeech, synthesizeSpeech } from './services/pcmAudio';
+import { buildSpeechRequest } from './services/speechText';
+import { appendMessage, getActivePath, getPathBefore, getSiblings, revealMessage, selectSibling } from './services/messageTree';
+import { GalleryImage } from './services/gallery';
+import { ACCEPTED_FILE_TYPES, readFileAsAttachment, validateFiles } from './services/attachments';
+import AttachmentPreview from './components/AttachmentPreview';
+import TokenMeter from './components/TokenMeter';
+import { countMessageTokens, estimateTokens, getTokenCount, isTokenCountCached, planContext, summarizeTurns } from './services/contextWindow';
+import { addTokenUsage, emptyTokenUsage, estimateCost, loadModelPrices, recordUsage, saveModelPrices } from './services/usage';
+import { ERROR_TITLES, RetryOptions, classifyError, withRetry } from './services/errors';
+import { applyPreset, loadPresets, loadSettings, savePresets, saveSettings } from './services/presets';
+import { loadSchemas, saveSchemas } from './services/structuredOutput';
+import { groundingFields } from './services/grounding';
+import { knowledgePrompt, retrieveKnowledge } from './services/knowledgeBase';
+
+const createConversation = (settings: AppSettings, presetId?: string): Conversation => {
+  const now = Date.now();
+  return {
+    id: now.toString(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    messages: [],
+    settings,
+    createdAt: now,
+    updatedAt: now,
+    presetId,
+  };
+};
 
 const App: React.FC = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [loadingConversationId, setLoadingConversationId] = useState<string | null>(null);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [settings, setSettings] = useState<AppSettings>(INITIAL_SETTINGS);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isLiveModeOpen, setIsLiveModeOpen] = useState(false);
+  const [isGalleryOpen, setIsGalleryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isKnowledgeOpen, setIsKnowledgeOpen] = useState(false);
+  const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>(loadModelPrices);
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [isImageMode, setIsImageMode] = useState(false);
+  const [isStructuredMode, setIsStructuredMode] = useState(false);
+  const [schemas, setSchemas] = useState<SavedSchema[]>(loadSchemas);
+  const [schemaId, setSchemaId] = useState<string | null>(() => schemas[0]?.id ?? null);
+  const [draftTokens, setDraftTokens] = useState(0);
+  // Bumped when token counts arrive; the counts themselves live in a module-level cache
+  const [tokenCountVersion, setTokenCountVersion] = useState(0);
+  // Shown in the reply placeholder while a failed request waits to be retried
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
   
   // Audio state
-  const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
-  const [currentAudioSource, setCurrentAudioSource] = useState<AudioBufferSourceNode | null>(null);
   const [playingMessageId, setPlayingMessageId] = useState<string | null>(null);
+  const [preparingAudioId, setPreparingAudioId] = useState<string | null>(null);
+  const playbackRef = useRef<SpeechPlayback | null>(null);
 
   // Refs for auto-scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Message to bring into view instead of scrolling to the bottom, e.g. when opened from the gallery
+  const scrollTargetIdRef = useRef<string | null>(null);
+
+  // Cancels the in-flight request when the user hits Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Last persisted version of each conversation, so only changed ones are written
+  const savedConversationsRef = useRef<Map<string, Conversation>>(new Map());
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+  // The visible thread: the selected path through the conversation tree
+  const messages = useMemo(() => activeConversation ? getActivePath(activeConversation) : [], [activeConversation]);
+  const settings = activeConversation?.settings ?? INITIAL_SETTINGS;
+  const isLoading = loadingConversationId !== null;
+  const activePreset = presets.find(p => p.id === activeConversation?.presetId);
+  const selectedSchema = schemas.find(s => s.id === schemaId);
+
+  // What the next turn would send, so the thread can show which messages fall outside the context
+  const contextPlan = useMemo(
+    () => planContext(messages, messages.map(m => getTokenCount(m, settings)), draftTokens, settings, activeConversation?.contextSummary),
+    [messages, settings, draftTokens, activeConversation?.contextSummary, tokenCountVersion]
+  );
+
+  // Load the workspace from IndexedDB
+  useEffect(() => {
+    loadConversations()
+      .then(stored => {
+        stored.forEach(c => savedConversationsRef.current.set(c.id, c));
+        const firstOpen = stored.find(c => !c.isArchived);
+        if (firstOpen) {
+          setConversations(stored);
+          setActiveConversationId(firstOpen.id);
+        } else {
+          const fresh = createConversation(loadSettings());
+          setConversations([fresh, ...stored]);
+          setActiveConversationId(fresh.id);
+        }
+      })
+      .catch(err => {
+        console.error("Failed to load conversations", err);
+        const fresh = createConversation(loadSettings());
+        setConversations([fresh]);
+        setActiveConversationId(fresh.id);
+      });
+  }, []);
+
+  // Persist conversations that changed. Messages still streaming are written once they finish.
+  useEffect(() => {
+    conversations.forEach(conversation => {
+      if (savedConversationsRef.current.get(conversation.id) === conversation) return;
+      if (conversation.messages.some(m => m.isStreaming)) return;
+      savedConversationsRef.current.set(conversation.id, conversation);
+      saveConversation(conversation).catch(err => console.error("Failed to save conversation", err));
+    });
+  }, [conversations]);
+
+  const updateConversation = useCallback((id: string, updater: (conversation: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(c => c.id === id ? updater(c) : c));
+  }, []);
+
+  const updateMessages = useCallback((id: string, updater: (messages: ChatMessage[]) => ChatMessage[]) => {
+    updateConversation(id, c => ({ ...c, messages: updater(c.messages), updatedAt: Date.now() }));
+  }, [updateConversation]);
+
+  const handlePricesChange = (prices: Record<string, ModelPrice>) => {
+    setModelPrices(prices);
+    saveModelPrices(prices);
+  };
+
+  /**
+   * Adds a model call to the local usage log.
+   */
+  const trackUsage = (kind: UsageKind, usage: TokenUsage | undefined, conversationId?: string, messageId?: string) => {
+    if (!usage) return;
+    recordUsage({ ...usage, kind, conversationId, messageId })
+      .catch(err => console.error("Failed to record usage", err));
+  };
+
+  // The latest settings also become the defaults for new conversations, including after a reload
+  const setSettings = (newSettings: AppSettings) => {
+    saveSettings(newSettings);
+    if (activeConversationId) {
+      updateConversation(activeConversationId, c => ({ ...c, settings: newSettings }));
+    }
+  };
+
+  const handleApplyPreset = (preset: SettingsPreset | null) => {
+    if (!activeConversationId) return;
+    const newSettings = preset ? applyPreset(settings, preset) : settings;
+    saveSettings(newSettings);
+    updateConversation(activeConversationId, c => ({ ...c, settings: newSettings, presetId: preset?.id }));
+  };
+
+  const handlePresetsChange = (newPresets: SettingsPreset[]) => {
+    setPresets(newPresets);
+    savePresets(newPresets);
+  };
+
+  const handleSchemasChange = (newSchemas: SavedSchema[]) => {
+    setSchemas(newSchemas);
+    saveSchemas(newSchemas);
+  };
+
+  const handleNewConversation = () => {
+    // Reuse the current conversation if nothing has been said yet
+    if (activeConversation && activeConversation.messages.length === 0 && !activeConversation.isArchived) return;
+    const fresh = createConversation(settings, activeConversation?.presetId);
+    setConversations(prev => [fresh, ...prev]);
+    setActiveConversationId(fresh.id);
+    setAttachments([]);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id === activeConversationId) return;
+    stopAudio();
+    setActiveConversationId(id);
+    setAttachments([]);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    updateConversation(id, c => ({ ...c, title, updatedAt: Date.now() }));
+  };
+
+  const handleToggleArchive = (id: string) => {
+    updateConversation(id, c => ({ ...c, isArchived: !c.isArchived, updatedAt: Date.now() }));
+  };
+
+  const handleImportConversation = async (file: File) => {
+    try {
+      const imported = parseConversationExport(await file.text());
+      // Keep the imported content intact, but never overwrite an existing conversation
+      const conversation = conversations.some(c => c.id === imported.id)
+        ? { ...imported, id: Date.now().toString() }
+        : imported;
+      setConversations(prev => [conversation, ...prev]);
+      setActiveConversationId(conversation.id);
+    } catch (err: any) {
+      window.alert(`Could not import conversation: ${err.message}`);
+    }
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    if (id === loadingConversationId) abortControllerRef.current?.abort();
+
+    savedConversationsRef.current.delete(id);
+    deleteConversation(id).catch(err => console.error("Failed to delete conversation", err));
+
+    const remaining = conversations.filter(c => c.id !== id);
+    if (id === activeConversationId) {
+      const next = remaining.find(c => !c.isArchived);
+      if (next) {
+        setActiveConversationId(next.id);
+      } else {
+        const fresh = createConversation(settings, activeConversation?.presetId);
+        remaining.unshift(fresh);
+        setActiveConversationId(fresh.id);
+      }
+    }
+    setConversations(remaining);
+  };
 
   useEffect(() => {
+    const targetId = scrollTargetIdRef.current;
+    const target = targetId ? document.querySelector(`[data-message-id="${targetId}"]`) : null;
+    if (target) {
+      scrollTargetIdRef.current = null;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  // Count finished messages with the provider's tokenizer, one request at a time
+  useEffect(() => {
+    const uncounted = messages.filter(m => !m.isStreaming && !isTokenCountCached(m, settings));
+    if (uncounted.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      for (const message of uncounted) {
+        await countMessageTokens(message, settings);
+        if (cancelled) return;
+      }
+      setTokenCountVersion(v => v + 1);
+    })();
+    return () => { cancelled = true; };
+  }, [messages, settings]);
+
+  // Estimate the draft right away, then count it once typing pauses
+  useEffect(() => {
+    const draft: ChatMessage = { id: 'draft', role: MessageRole.USER, text: input, attachments, timestamp: 0 };
+    setDraftTokens(estimateTokens(draft));
+    if (!input.trim() && attachments.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      countMessageTokens(draft, settings, false).then(tokens => {
+        if (!cancelled) setDraftTokens(tokens);
+      });
+    }, 600);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [input, attachments, settings]);
+
   // Adjust textarea height
   useEffect(() => {
     if (textareaRef.current) {
@@ -38,127 +291,548 @@ const App: React.FC = () => {
     }
   }, [input]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        setAttachments(prev => [...prev, {
-          mimeType: file.type,
-          data: base64String,
-          previewUrl: URL.createObjectURL(file)
-        }]);
-      };
-      reader.readAsDataURL(file);
+  /**
+   * Attaches picked, dropped or pasted files, skipping any that break the size limits.
+   */
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const { accepted, errors } = validateFiles(files, attachments);
+    setAttachmentError(errors.length > 0 ? errors.join(' ') : null);
+
+    const results = await Promise.allSettled(accepted.map(readFileAsAttachment));
+    const added = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+    if (added.length < results.length) {
+      setAttachmentError(prev => [prev, "Some files couldn't be read."].filter(Boolean).join(' '));
     }
+    setAttachments(prev => [...prev, ...added]);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
     // Reset input
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    // Plain text pastes into the box as usual
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Leaving for a child element still counts as being over the drop zone
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   const removeAttachment = (index: number) => {
+    setAttachmentError(null);
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
+  /**
+   * Puts an image from the thread into the composer so the next image prompt edits it.
+   */
+  const handleEditImage = (attachment: Attachment) => {
+    setAttachments([attachment]);
+    setIsImageMode(true);
+    textareaRef.current?.focus();
+  };
+
   const stopAudio = useCallback(() => {
-    if (currentAudioSource) {
-      currentAudioSource.stop();
-      setCurrentAudioSource(null);
-    }
+    playbackRef.current?.stop();
+    playbackRef.current = null;
     setPlayingMessageId(null);
-  }, [currentAudioSource]);
+  }, []);
 
-  const playAudio = async (text: string, messageId: string) => {
+  const speechRetryOptions = (turnSettings: AppSettings): RetryOptions => ({
+    timeoutMs: turnSettings.requestTimeout * 1000,
+    maxRetries: turnSettings.maxRetries,
+  });
+
+  const playAudio = (text: string, messageId: string, asDialogue = false) => {
     // Stop any currently playing audio
     stopAudio();
 
+    const provider = getProviderFor(settings, 'generateSpeech');
+    const request = buildSpeechRequest(messageId, text, settings, asDialogue);
+    const options = {
+      ...request.options,
+      onUsage: (usage: TokenUsage) => trackUsage('speech', usage, activeConversationId ?? undefined, messageId),
+    };
+    const playback = playSpeech(
+      request.key,
+      request.chunks,
+      chunk => withRetry(({ signal }) => provider.generateSpeech(chunk, { ...options, signal }), speechRetryOptions(settings)),
+      settings.ttsSpeed
+    );
+    playbackRef.current = playback;
+    setPlayingMessageId(messageId);
+
+    playback.done
+      .catch(err => console.error("Failed to play audio", err))
+      .finally(() => {
+        if (playbackRef.current !== playback) return;
+        playbackRef.current = null;
+        setPlayingMessageId(null);
+      });
+  };
+
+  /**
+   * Saves a reply's speech as a .wav file, reusing the audio from an earlier read-aloud.
+   */
+  const downloadAudio = async (message: ChatMessage) => {
+    setPreparingAudioId(message.id);
     try {
-      const audioData = await generateSpeech(text);
-      const ctx = audioContext || new (window.AudioContext || (window as any).webkitAudioContext)();
-      if (!audioContext) setAudioContext(ctx);
-
-      const buffer = await ctx.decodeAudioData(audioData);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.onended = () => setPlayingMessageId(null);
-      source.start();
-      
-      setCurrentAudioSource(source);
-      setPlayingMessageId(messageId);
+      const provider = getProviderFor(settings, 'generateSpeech');
+      const request = buildSpeechRequest(message.id, message.text, settings);
+      const options = {
+        ...request.options,
+        onUsage: (usage: TokenUsage) => trackUsage('speech', usage, activeConversationId ?? undefined, message.id),
+      };
+      const pcm = await synthesizeSpeech(
+        request.key,
+        request.chunks,
+        chunk => withRetry(({ signal }) => provider.generateSpeech(chunk, { ...options, signal }), speechRetryOptions(settings))
+      );
+      downloadBlob(encodeWav(pcm), `${slugify(message.text.slice(0, 40))}.wav`);
     } catch (err) {
-      console.error("Failed to play audio", err);
+      console.error("Failed to download audio", err);
+    } finally {
+      setPreparingAudioId(null);
     }
   };
 
-  const handleSendMessage = async () => {
-    if ((!input.trim() && attachments.length === 0) || isLoading) return;
+  /**
+   * Trims `history` to the turn's token budget. With the summarize strategy, turns that no
+   * longer fit are folded into the conversation's summary first; if that fails they are
+   * simply left out. Cancelling the turn cancels the summary too.
+   */
+  const buildContextHistory = async (
+    conversationId: string,
+    history: ChatMessage[],
+    userMsg: ChatMessage,
+    turnSettings: AppSettings,
+    retryOptions: RetryOptions
+  ): Promise<ChatMessage[]> => {
+    const counts: number[] = [];
+    for (const message of history) counts.push(await countMessageTokens(message, turnSettings));
+    const pendingTokens = await countMessageTokens(userMsg, turnSettings);
+    const summary = conversations.find(c => c.id === conversationId)?.contextSummary;
 
-    const userMsgId = Date.now().toString();
-    const newUserMsg: ChatMessage = {
-      id: userMsgId,
-      role: MessageRole.USER,
-      text: input,
-      attachments: [...attachments],
-      timestamp: Date.now()
-    };
+    const plan = planContext(history, counts, pendingTokens, turnSettings, summary);
+    if (!plan.pendingSummary) return plan.messages;
 
-    setMessages(prev => [...prev, newUserMsg]);
-    setInput('');
-    setAttachments([]);
-    if (textareaRef.current) textareaRef.current.style.height = 'auto';
-    setIsLoading(true);
+    try {
+      const { summary: newSummary, usage } = await summarizeTurns(plan.pendingSummary, turnSettings, summary, {
+        signal: retryOptions.signal,
+        timeoutMs: retryOptions.timeoutMs,
+      });
+      trackUsage('summary', usage, conversationId);
+      updateConversation(conversationId, c => ({ ...c, contextSummary: newSummary }));
+      return planContext(history, counts, pendingTokens, turnSettings, newSummary).messages;
+    } catch (err) {
+      if (retryOptions.signal?.aborted) throw err;
+      console.error("Failed to summarize older turns", err);
+      return plan.messages;
+    }
+  };
+
+  /**
+   * Generates the model's reply to `userMsg` as a new child of it.
+   * `history` is the thread before `userMsg`, i.e. the selected path through the tree.
+   */
+  const runModelTurn = async (
+    conversationId: string,
+    history: ChatMessage[],
+    userMsg: ChatMessage,
+    turnSettings: AppSettings
+  ) => {
+    setLoadingConversationId(conversationId);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const botMsgId = (Date.now() + 1).toString();
+    const retryOptions: RetryOptions = {
+      signal: controller.signal,
+      timeoutMs: turnSettings.requestTimeout * 1000,
+      maxRetries: turnSettings.maxRetries,
+      onRetry: (error, attempt, delayMs) => setRetryNotice(
+        `${ERROR_TITLES[error.kind]}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${turnSettings.maxRetries})…`
+      ),
+    };
 
     try {
-      // Check for special "image generation" command or mode
-      const isImageGenRequest = newUserMsg.text.toLowerCase().startsWith('/image') || newUserMsg.text.toLowerCase().startsWith('generate image');
+      const isImageGenRequest = !!userMsg.isImagePrompt;
 
       let responseText = '';
-      let responseImageUrl = '';
+      let isTruncated = false;
 
       if (isImageGenRequest) {
-        // Image Gen Mode
-        const prompt = newUserMsg.text.replace(/^\/image|generate image/i, '').trim();
-        const result = await generateImageWithGemini(prompt);
-        responseImageUrl = result.imageUrl;
-        responseText = result.caption || `Generated image for: "${prompt}"`;
-        // Format markdown to show image
-        responseText = `![Generated Image](${responseImageUrl})\n\n${responseText}`;
+        // Image Gen Mode - attached images are edited; otherwise a follow-up refines the last result
+        const prompt = userMsg.text.trim();
+        const attachedImages = (userMsg.attachments || []).filter(a => a.mimeType.startsWith('image/'));
+        const previous = history[history.length - 1];
+        const sourceImages = attachedImages.length > 0
+          ? attachedImages
+          : previous?.imageGeneration && previous.attachments ? previous.attachments.slice(0, 1) : [];
+
+        const provider = getProviderFor(turnSettings, 'generateImage');
+        const request = { prompt, aspectRatio: turnSettings.imageAspectRatio, images: sourceImages };
+        const results = await Promise.allSettled(
+          Array.from({ length: turnSettings.imageVariations }, () => withRetry(
+            ({ signal }) => provider.generateImage(request, signal),
+            retryOptions
+          ))
+        );
+        if (controller.signal.aborted) return;
+
+        const images = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        if (images.length === 0) {
+          throw (results[0] as PromiseRejectedResult).reason;
+        }
+
+        images.forEach(img => trackUsage('image', img.usage, conversationId, botMsgId));
+        const usage = images.reduce<TokenUsage | undefined>(
+          (sum, img) => img.usage ? addTokenUsage(sum ?? emptyTokenUsage(img.usage.model), img.usage) : sum,
+          undefined
+        );
+
+        const failed = results.length - images.length;
+        responseText = images.find(img => img.caption)?.caption
+          || `${sourceImages.length > 0 ? 'Edited' : 'Generated'} image for: "${prompt}"`;
+        if (failed > 0) {
+          responseText += `\n\n_${failed} of ${results.length} variations failed._`;
+        }
+
+        updateConversation(conversationId, c => appendMessage(c, {
+          id: botMsgId,
+          parentId: userMsg.id,
+          role: MessageRole.MODEL,
+          text: responseText,
+          attachments: images.map(img => ({
+            mimeType: img.mimeType,
+            data: img.data,
+            previewUrl: URL.createObjectURL(base64ToBlob(img.data, img.mimeType)),
+          })),
+          imageGeneration: { prompt, model: ModelType.IMAGE_GEN, aspectRatio: turnSettings.imageAspectRatio },
+          usage,
+          timestamp: Date.now()
+        }));
       } else {
-        // Chat Mode
-        responseText = await sendMessageToGemini(messages, newUserMsg.text, newUserMsg.attachments || [], settings);
-      }
+        // Library passages go in front of the message; the stored message keeps only what was typed
+        let knowledge: KnowledgeReference[] = [];
+        if (turnSettings.enableKnowledge && userMsg.text.trim()) {
+          try {
+            knowledge = await retrieveKnowledge(userMsg.text, turnSettings, controller.signal);
+          } catch (err) {
+            console.error("Failed to search the knowledge library", err);
+          }
+        }
+        const prompt = knowledgePrompt(userMsg.text, knowledge);
 
-      const botMsgId = (Date.now() + 1).toString();
-      const newBotMsg: ChatMessage = {
-        id: botMsgId,
-        role: MessageRole.MODEL,
-        text: responseText,
-        timestamp: Date.now()
-      };
+        // Chat Mode - the bot message is added on the first chunk and grows as the stream arrives
+        let hasStarted = false;
+        const updateBotMessage = (patch: (m: ChatMessage) => Partial<ChatMessage>) => {
+          if (!hasStarted) {
+            hasStarted = true;
+            const placeholder: ChatMessage = {
+              id: botMsgId,
+              parentId: userMsg.id,
+              role: MessageRole.MODEL,
+              text: '',
+              timestamp: Date.now(),
+              isStreaming: true,
+              structuredOutput: userMsg.structuredOutput,
+              knowledge: knowledge.length > 0 ? knowledge : undefined
+            };
+            updateConversation(conversationId, c => appendMessage(c, { ...placeholder, ...patch(placeholder) }));
+          } else {
+            updateMessages(conversationId, prev => prev.map(m => m.id === botMsgId ? { ...m, ...patch(m) } : m));
+          }
+        };
+
+        const contextHistory = await buildContextHistory(conversationId, history, { ...userMsg, text: prompt }, turnSettings, retryOptions);
+        if (controller.signal.aborted) return;
+
+        // Once part of the reply is on screen, a failure is shown rather than retried
+        const result = await withRetry(({ signal, keepAlive }) => getProvider(turnSettings.provider).streamMessage(
+          contextHistory,
+          prompt,
+          userMsg.attachments || [],
+          turnSettings,
+          {
+            onText: (_chunk, fullText) => {
+              keepAlive();
+              updateBotMessage(() => ({ text: fullText }));
+            },
+            onThought: (_chunk, fullThoughts) => {
+              keepAlive();
+              updateBotMessage(() => ({ thoughts: fullThoughts }));
+            },
+            onToolCall: (call) => {
+              keepAlive();
+              updateBotMessage(m => {
+                const existing = m.toolCalls || [];
+                return {
+                  toolCalls: existing.some(c => c.id === call.id)
+                    ? existing.map(c => c.id === call.id ? call : c)
+                    : [...existing, call]
+                };
+              });
+            }
+          },
+          signal,
+          userMsg.structuredOutput
+        ), { ...retryOptions, canRetry: () => !hasStarted });
 
-      setMessages(prev => [...prev, newBotMsg]);
+        responseText = result.text;
+        isTruncated = result.truncated;
+        trackUsage('chat', result.usage, conversationId, botMsgId);
 
-      // Auto TTS if enabled
-      if (settings.enableTTS && !isImageGenRequest) {
+        if (hasStarted) {
+          updateBotMessage(() => ({
+            text: responseText,
+            thoughts: result.thoughts || undefined,
+            thinkingTokens: result.thinkingTokens || undefined,
+            usage: result.usage,
+            candidates: result.candidates,
+            selectedCandidate: result.candidates ? 0 : undefined,
+            ...groundingFields(result.grounding),
+            isStreaming: false,
+            isTruncated
+          }));
+        }
+      }
+
+      // Auto TTS if enabled; JSON replies aren't worth listening to
+      if (turnSettings.enableTTS && !isImageGenRequest && !userMsg.structuredOutput && !isTruncated && responseText) {
         playAudio(responseText, botMsgId);
       }
 
-    } catch (error: any) {
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const error = classifyError(err);
       const errorMsg: ChatMessage = {
         id: Date.now().toString(),
+        parentId: userMsg.id,
         role: MessageRole.MODEL,
-        text: error.message || "Something went wrong. Please try again.",
+        text: error.message,
         timestamp: Date.now(),
-        isError: true
+        isError: true,
+        errorKind: error.kind,
+        errorDetail: error.detail
       };
-      setMessages(prev => [...prev, errorMsg]);
+      // Drop any partially streamed reply in favour of the error
+      updateConversation(conversationId, c => appendMessage(
+        { ...c, messages: c.messages.filter(m => m.id !== botMsgId) },
+        errorMsg
+      ));
     } finally {
-      setIsLoading(false);
+      abortControllerRef.current = null;
+      setLoadingConversationId(null);
+      setRetryNotice(null);
     }
   };
 
+  // Image prompts always need a description, even when editing an attached image
+  const canSend = isImageMode
+    ? !!input.trim()
+    : (!isStructuredMode || !!selectedSchema) && (!!input.trim() || attachments.length > 0);
+
+  /**
+   * Adds a user message at the end of a conversation's visible thread and answers it.
+   * Replies land in that conversation, even if the user switches away.
+   */
+  const submitMessage = async (
+    conversation: Conversation,
+    draft: Pick<ChatMessage, 'text' | 'attachments' | 'isImagePrompt' | 'structuredOutput'>,
+    turnSettings: AppSettings
+  ) => {
+    const path = getActivePath(conversation);
+    const newUserMsg: ChatMessage = {
+      id: Date.now().toString(),
+      parentId: path.length > 0 ? path[path.length - 1].id : null,
+      role: MessageRole.USER,
+      ...draft,
+      timestamp: Date.now()
+    };
+
+    updateConversation(conversation.id, c => ({
+      ...appendMessage(c, newUserMsg),
+      title: c.title === DEFAULT_CONVERSATION_TITLE && newUserMsg.text.trim()
+        ? newUserMsg.text.trim().slice(0, 60)
+        : c.title,
+    }));
+
+    await runModelTurn(conversation.id, path, newUserMsg, turnSettings);
+  };
+
+  const handleSendMessage = async () => {
+    if (!canSend || isLoading || !activeConversation) return;
+
+    const draft = {
+      text: input,
+      attachments: [...attachments],
+      isImagePrompt: isImageMode || undefined,
+      structuredOutput: isStructuredMode && selectedSchema
+        ? { name: selectedSchema.name, schema: selectedSchema.schema }
+        : undefined,
+    };
+    setInput('');
+    setAttachments([]);
+    setAttachmentError(null);
+    if (textareaRef.current) textareaRef.current.style.height = 'auto';
+
+    await submitMessage(activeConversation, draft, settings);
+  };
+
+  /**
+   * Shows a gallery image's message in its conversation, switching branches if needed.
+   */
+  const handleOpenGalleryMessage = (conversationId: string, messageId: string) => {
+    setIsGalleryOpen(false);
+    if (conversationId !== activeConversationId) {
+      stopAudio();
+      setAttachments([]);
+    }
+    scrollTargetIdRef.current = messageId;
+    updateConversation(conversationId, c => revealMessage(c, messageId));
+    setActiveConversationId(conversationId);
+  };
+
+  /**
+   * Sends a gallery image's prompt again, with the same source images and aspect ratio,
+   * at the end of the conversation it came from.
+   */
+  const handleRerunGalleryImage = async (image: GalleryImage) => {
+    const conversation = conversations.find(c => c.id === image.conversationId);
+    if (isLoading || !conversation) return;
+
+    setIsGalleryOpen(false);
+    if (conversation.id !== activeConversationId) {
+      stopAudio();
+      setAttachments([]);
+      setActiveConversationId(conversation.id);
+    }
+
+    await submitMessage(
+      conversation,
+      { text: image.prompt, attachments: image.sourceImages, isImagePrompt: true },
+      { ...conversation.settings, imageAspectRatio: image.aspectRatio ?? conversation.settings.imageAspectRatio }
+    );
+  };
+
+  /**
+   * Edits a past user message by adding an edited sibling and answering it.
+   */
+  const handleEditMessage = async (message: ChatMessage, newText: string) => {
+    if (isLoading || !activeConversation) return;
+
+    const editedMsg: ChatMessage = {
+      ...message,
+      id: Date.now().toString(),
+      text: newText,
+      timestamp: Date.now()
+    };
+
+    updateConversation(activeConversation.id, c => appendMessage(c, editedMsg));
+    await runModelTurn(activeConversation.id, getPathBefore(activeConversation, message.id), editedMsg, settings);
+  };
+
+  /**
+   * Regenerates a model reply as a new sibling under the same user message.
+   */
+  const handleRegenerate = async (message: ChatMessage) => {
+    if (isLoading || !activeConversation || !message.parentId) return;
+
+    const userMsg = activeConversation.messages.find(m => m.id === message.parentId);
+    if (!userMsg) return;
+
+    stopAudio();
+    await runModelTurn(activeConversation.id, getPathBefore(activeConversation, userMsg.id), userMsg, settings);
+  };
+
+  /**
+   * Replaces an error reply with a new attempt at answering the same user message,
+   * attachments included.
+   */
+  const handleRetry = async (message: ChatMessage) => {
+    if (isLoading || !activeConversation || !message.parentId) return;
+
+    const userMsg = activeConversation.messages.find(m => m.id === message.parentId);
+    if (!userMsg) return;
+
+    const history = getPathBefore(activeConversation, userMsg.id);
+    updateConversation(activeConversation.id, c => ({ ...c, messages: c.messages.filter(m => m.id !== message.id) }));
+    await runModelTurn(activeConversation.id, history, userMsg, settings);
+  };
+
+  /**
+   * Continues the conversation with another of a reply's candidates.
+   */
+  const handleSelectCandidate = (message: ChatMessage, index: number) => {
+    if (!activeConversationId || !message.candidates?.[index]) return;
+    updateMessages(activeConversationId, prev => prev.map(m => m.id === message.id
+      ? { ...m, text: message.candidates![index], selectedCandidate: index }
+      : m
+    ));
+  };
+
+  const handleSelectSibling = (message: ChatMessage, offset: number) => {
+    if (!activeConversationId) return;
+    updateConversation(activeConversationId, c => selectSibling(c, message, offset));
+  };
+
+  /**
+   * Appends the transcript of a finished voice call to the visible thread, one message per
+   * speaker turn, so the text conversation can pick up where the call left off.
+   */
+  const handleLiveTranscript = (entries: LiveTranscriptEntry[]) => {
+    if (!activeConversationId) return;
+
+    const turns: LiveTranscriptEntry[] = [];
+    entries.forEach(entry => {
+      const last = turns[turns.length - 1];
+      if (last && last.speaker === entry.speaker) {
+        turns[turns.length - 1] = { ...last, text: `${last.text} ${entry.text.trim()}` };
+      } else {
+        turns.push({ ...entry, text: entry.text.trim() });
+      }
+    });
+
+    updateConversation(activeConversationId, c => turns.reduce((conversation, turn, index) => {
+      const path = getActivePath(conversation);
+      return appendMessage(conversation, {
+        id: `${Date.now()}-voice-${index}`,
+        parentId: path.length > 0 ? path[path.length - 1].id : null,
+        role: turn.speaker === 'user' ? MessageRole.USER : MessageRole.MODEL,
+        text: turn.text,
+        timestamp: turn.timestamp,
+        isVoice: true
+      });
+    }, c));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -167,175 +841,386 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="flex flex-col h-screen bg-darker text-gray-200 font-sans selection:bg-primary/30">
-      {/* Header */}
-      <header className="flex items-center justify-between px-6 py-4 border-b border-white/10 bg-surface/50 backdrop-blur-md sticky top-0 z-10">
-        <div className="flex items-center gap-3">
-          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-lg shadow-primary/20">
-            <Sparkles className="w-6 h-6 text-white" />
-          </div>
-          <div>
-            <h1 className="font-bold text-lg text-white tracking-tight">Nova Workspace</h1>
-            <div className="flex items-center gap-2">
-              <span className={`w-2 h-2 rounded-full ${settings.model === ModelType.PRO ? 'bg-secondary' : 'bg-green-400'}`}></span>
-              <span className="text-xs text-gray-400 font-mono">{settings.model}</span>
-            </div>
-          </div>
-        </div>
-        
-        <div className="flex items-center gap-2">
-          <button 
-            onClick={() => {
-              stopAudio();
-              setIsLiveModeOpen(true);
-            }}
-            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-primary/10 text-primary hover:bg-primary/20 border border-primary/20 transition-all font-medium text-sm"
-          >
-            <Headphones className="w-4 h-4" />
-            <span>Voice Chat</span>
-          </button>
-          
-          <button 
-            onClick={() => setIsSettingsOpen(true)}
-            className="p-2 rounded-lg hover:bg-white/5 text-gray-400 hover:text-white transition-colors"
-          >
-            <Settings className="w-6 h-6" />
-          </button>
-        </div>
-      </header>
-
-      {/* Settings Panel */}
-      <SettingsPanel 
-        isOpen={isSettingsOpen} 
-        onClose={() => setIsSettingsOpen(false)} 
-        settings={settings}
-        onSettingsChange={setSettings}
+    <div className="flex h-screen bg-darker text-gray-200 font-sans selection:bg-primary/30">
+      <ConversationSidebar
+        isOpen={isSidebarOpen}
+        conversations={[...conversations].sort((a, b) => b.updatedAt - a.updatedAt)}
+        activeConversationId={activeConversationId}
+        onSelect={handleSelectConversation}
+        onCreate={handleNewConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+        onToggleArchive={handleToggleArchive}
+        onImport={handleImportConversation}
       />
 
-      {/* Live Voice Mode Overlay */}
-      <LiveVoiceMode 
-        isOpen={isLiveModeOpen} 
-        onClose={() => setIsLiveModeOpen(false)} 
-      />
+      <div
+        className="relative flex flex-col flex-1 min-w-0"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {/* Drop Overlay */}
+        {isDraggingFiles && (
+          <div className="absolute inset-4 z-40 flex flex-col items-center justify-center gap-3 rounded-2xl border-2 border-dashed border-primary/60 bg-darker/80 backdrop-blur-sm pointer-events-none">
+            <Paperclip className="w-10 h-10 text-primary" />
+            <p className="text-white font-medium">Drop files to attach</p>
+            <p className="text-xs text-gray-400">Images, PDFs, audio, video and text files</p>
+          </div>
+        )}
 
-      {/* Main Chat Area */}
-      <main className="flex-1 overflow-y-auto relative flex flex-col">
-        {messages.length === 0 ? (
-          <div className="flex-1 flex flex-col items-center justify-center text-center p-8 opacity-0 animate-[fadeIn_0.5s_ease-out_forwards]">
-            <div className="w-24 h-24 rounded-full bg-gradient-to-tr from-primary/20 to-secondary/20 flex items-center justify-center mb-6 animate-pulse-slow">
-              <Sparkles className="w-10 h-10 text-white/50" />
+        {/* Header */}
+        <header className="flex items-center justify-between px-6 py-4 border-b border-white/10 bg-surface/50 backdrop-blur-md sticky top-0 z-10">
+          <div className="flex items-center gap-3">
+            <button 
+              onClick={() => setIsSidebarOpen(!isSidebarOpen)}
+              className="p-2 -ml-2 rounded-lg hover:bg-white/5 text-gray-400 hover:text-white transition-colors"
+              title={isSidebarOpen ? "Hide conversations" : "Show conversations"}
+            >
+              <PanelLeft className="w-5 h-5" />
+            </button>
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center shadow-lg shadow-primary/20">
+              <Sparkles className="w-6 h-6 text-white" />
             </div>
-            <h2 className="text-3xl font-bold text-white mb-3">How can Nova help you?</h2>
-            <p className="text-gray-400 max-w-md mb-8">
-              Experience the power of Gemini 2.5 & 3.0. Ask complex questions, generate images, or analyze photos.
-            </p>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full max-w-2xl">
-              <button onClick={() => setInput("Explain quantum entanglement to a 5-year-old")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-primary/50 transition-all text-left text-sm">
-                ⚛️ Explain quantum entanglement
-              </button>
-              <button onClick={() => setInput("/image A futuristic city on Mars, neon lights, 4k")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-secondary/50 transition-all text-left text-sm">
-                🎨 Generate a futuristic Mars city
-              </button>
-              <button onClick={() => setInput("Write a Python script to visualize stock data")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-primary/50 transition-all text-left text-sm">
-                🐍 Python stock viz script
-              </button>
-              <button onClick={() => setInput("Analyze this image and tell me the ingredients")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-secondary/50 transition-all text-left text-sm">
-                🍲 Analyze food ingredients
-              </button>
+            <div>
+              <h1 className="font-bold text-lg text-white tracking-tight">Nova Workspace</h1>
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${settings.model === ModelType.PRO ? 'bg-secondary' : 'bg-green-400'}`}></span>
+                <span className="text-xs text-gray-400 font-mono">{settings.model}</span>
+                {activePreset && (
+                  <span className="text-xs text-gray-500">· {activePreset.name}</span>
+                )}
+              </div>
             </div>
           </div>
-        ) : (
-          <div className="flex flex-col pb-4">
-            {messages.map((msg) => (
-              <ChatMessageBubble 
-                key={msg.id} 
-                message={msg} 
-                isPlaying={playingMessageId === msg.id}
-                onPlayAudio={(text) => playAudio(text, msg.id)}
-                onStopAudio={stopAudio}
-              />
-            ))}
-            {isLoading && (
-              <ChatMessageBubble 
-                message={{ 
-                  id: 'thinking', 
-                  role: MessageRole.MODEL, 
-                  text: '', 
-                  timestamp: Date.now(), 
-                  isThinking: true 
-                }} 
-              />
-            )}
-            <div ref={messagesEndRef} />
-          </div>
-        )}
-      </main>
-
-      {/* Input Area */}
-      <footer className="p-4 bg-darker">
-        <div className="max-w-4xl mx-auto relative">
-          {/* Attachments Preview */}
-          {attachments.length > 0 && (
-            <div className="flex gap-3 mb-3 overflow-x-auto p-2">
-              {attachments.map((att, idx) => (
-                <div key={idx} className="relative group w-20 h-20 rounded-lg overflow-hidden border border-white/20">
-                  <img src={att.previewUrl} alt="preview" className="w-full h-full object-cover" />
-                  <button 
-                    onClick={() => removeAttachment(idx)}
-                    className="absolute top-1 right-1 p-1 bg-black/50 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity"
-                  >
-                    <X className="w-3 h-3" />
-                  </button>
-                </div>
-              ))}
-            </div>
-          )}
+        
+          <div className="flex items-center gap-2">
+            <button 
+              onClick={() => {
+                stopAudio();
+                setIsLiveModeOpen(true);
+              }}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-primary/10 text-primary hover:bg-primary/20 border border-primary/20 transition-all font-medium text-sm"
+            >
+              <Headphones className="w-4 h-4" />
+              <span>Voice Chat</span>
+            </button>
+          
+            <button 
+              onClick={() => setIsGalleryOpen(true)}
+              className="p-2 rounded-lg hover:bg-white/5 text-gray-400 hover:text-white transition-colors"
+              title="Image gallery"
+            >
+              <Images className="w-5 h-5" />
+            </button>
 
-          <div className="relative flex items-end gap-2 bg-surface border border-white/10 rounded-2xl p-2 shadow-2xl focus-within:ring-2 focus-within:ring-primary/50 focus-within:border-primary transition-all">
-            <input 
-              type="file" 
-              ref={fileInputRef} 
-              className="hidden" 
-              accept="image/*" 
-              onChange={handleFileUpload}
-            />
-            
             <button 
-              onClick={() => fileInputRef.current?.click()}
-              className="p-3 text-gray-400 hover:text-white hover:bg-white/10 rounded-xl transition-colors shrink-0"
-              title="Add Image"
+              onClick={() => setIsKnowledgeOpen(true)}
+              className={`p-2 rounded-lg hover:bg-white/5 transition-colors ${settings.enableKnowledge ? 'text-primary' : 'text-gray-400 hover:text-white'}`}
+              title={settings.enableKnowledge ? 'Knowledge library (on for this conversation)' : 'Knowledge library'}
             >
-              <Plus className="w-5 h-5" />
+              <Library className="w-5 h-5" />
             </button>
 
-            <textarea
-              ref={textareaRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder={attachments.length > 0 ? "Ask about this image..." : "Ask anything or type /image..."}
-              className="w-full bg-transparent border-none text-white placeholder-gray-500 focus:ring-0 resize-none py-3 max-h-48"
-              rows={1}
-            />
+            <button 
+              onClick={() => setIsUsageOpen(true)}
+              className="p-2 rounded-lg hover:bg-white/5 text-gray-400 hover:text-white transition-colors"
+              title="Usage and costs"
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+
+            <ExportMenu conversation={activeConversation} />
 
             <button 
-              onClick={handleSendMessage}
-              disabled={isLoading || (!input.trim() && attachments.length === 0)}
-              className={`p-3 rounded-xl transition-all duration-300 shrink-0 ${
-                isLoading || (!input.trim() && attachments.length === 0)
-                  ? 'bg-white/5 text-gray-500 cursor-not-allowed'
-                  : 'bg-primary text-white shadow-lg shadow-primary/25 hover:bg-primary/90 hover:scale-105'
-              }`}
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 rounded-lg hover:bg-white/5 text-gray-400 hover:text-white transition-colors"
             >
-              {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+              <Settings className="w-6 h-6" />
             </button>
           </div>
+        </header>
+
+        {/* Settings Panel */}
+        <SettingsPanel 
+          isOpen={isSettingsOpen} 
+          onClose={() => setIsSettingsOpen(false)} 
+          settings={settings}
+          onSettingsChange={setSettings}
+          presets={presets}
+          presetId={activeConversation?.presetId}
+          onApplyPreset={handleApplyPreset}
+          onPresetsChange={handlePresetsChange}
+        />
+
+        {/* Image Gallery Overlay */}
+        <ImageGallery
+          isOpen={isGalleryOpen}
+          onClose={() => setIsGalleryOpen(false)}
+          conversations={conversations}
+          onOpenMessage={handleOpenGalleryMessage}
+          onRerun={handleRerunGalleryImage}
+        />
+
+        {/* Usage Dashboard Overlay */}
+        <UsageDashboard
+          isOpen={isUsageOpen}
+          onClose={() => setIsUsageOpen(false)}
+          conversations={conversations}
+          prices={modelPrices}
+          onPricesChange={handlePricesChange}
+        />
+
+        {/* Knowledge Library Overlay */}
+        <KnowledgeLibrary
+          isOpen={isKnowledgeOpen}
+          onClose={() => setIsKnowledgeOpen(false)}
+          settings={settings}
+          onSettingsChange={setSettings}
+        />
+
+        {/* Live Voice Mode Overlay */}
+        <LiveVoiceMode 
+          isOpen={isLiveModeOpen} 
+          onClose={() => setIsLiveModeOpen(false)} 
+          settings={settings}
+          history={messages}
+          onTranscript={handleLiveTranscript}
+          onUsage={usage => trackUsage('live', usage, activeConversationId ?? undefined)}
+        />
+
+        {/* Main Chat Area */}
+        <main className="flex-1 overflow-y-auto relative flex flex-col">
+          {messages.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-center p-8 opacity-0 animate-[fadeIn_0.5s_ease-out_forwards]">
+              <div className="w-24 h-24 rounded-full bg-gradient-to-tr from-primary/20 to-secondary/20 flex items-center justify-center mb-6 animate-pulse-slow">
+                <Sparkles className="w-10 h-10 text-white/50" />
+              </div>
+              <h2 className="text-3xl font-bold text-white mb-3">How can Nova help you?</h2>
+              <p className="text-gray-400 max-w-md mb-8">
+                Experience the power of Gemini 2.5 & 3.0. Ask complex questions, generate images, or analyze photos.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 w-full max-w-2xl">
+                <button onClick={() => setInput("Explain quantum entanglement to a 5-year-old")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-primary/50 transition-all text-left text-sm">
+                  ⚛️ Explain quantum entanglement
+                </button>
+                <button onClick={() => { setIsImageMode(true); setInput("A futuristic city on Mars, neon lights, 4k"); }} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-secondary/50 transition-all text-left text-sm">
+                  🎨 Generate a futuristic Mars city
+                </button>
+                <button onClick={() => setInput("Write a Python script to visualize stock data")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-primary/50 transition-all text-left text-sm">
+                  🐍 Python stock viz script
+                </button>
+                <button onClick={() => setInput("Analyze this image and tell me the ingredients")} className="p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 hover:border-secondary/50 transition-all text-left text-sm">
+                  🍲 Analyze food ingredients
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col pb-4">
+              {messages.map((msg) => {
+                const siblings = activeConversation ? getSiblings(activeConversation, msg) : [msg];
+                return (
+                  <ChatMessageBubble 
+                    key={msg.id} 
+                    message={msg} 
+                    isPlaying={playingMessageId === msg.id}
+                    isBusy={isLoading}
+                    branchIndex={siblings.findIndex(s => s.id === msg.id)}
+                    branchCount={siblings.length}
+                    onPlayAudio={(text) => playAudio(text, msg.id)}
+                    onPlayDialogue={() => playAudio(msg.text, msg.id, true)}
+                    onStopAudio={stopAudio}
+                    isPreparingAudio={preparingAudioId === msg.id}
+                    onDownloadAudio={() => downloadAudio(msg)}
+                    onSelectSibling={(offset) => handleSelectSibling(msg, offset)}
+                    onEdit={(text) => handleEditMessage(msg, text)}
+                    onRegenerate={() => handleRegenerate(msg)}
+                    onRetry={() => handleRetry(msg)}
+                    onSelectCandidate={(index) => handleSelectCandidate(msg, index)}
+                    onEditImage={handleEditImage}
+                    contextStatus={contextPlan.statuses[msg.id]}
+                    usageCost={msg.usage ? estimateCost(msg.usage, modelPrices) : null}
+                  />
+                );
+              })}
+              {loadingConversationId === activeConversationId && !messages.some(m => m.isStreaming) && (
+                <ChatMessageBubble 
+                  message={{ 
+                    id: 'thinking', 
+                    role: MessageRole.MODEL, 
+                    text: retryNotice ?? '', 
+                    timestamp: Date.now(), 
+                    isThinking: true 
+                  }} 
+                />
+              )}
+              <div ref={messagesEndRef} />
+            </div>
+          )}
+        </main>
+
+        {/* Input Area */}
+        <footer className="p-4 bg-darker">
+          <div className="max-w-4xl mx-auto relative">
+            {/* Context Usage */}
+            {messages.length > 0 && !isImageMode && (
+              <div className="flex justify-end mb-2 px-2">
+                <TokenMeter plan={contextPlan} strategy={settings.contextStrategy} />
+              </div>
+            )}
+
+            {/* Attachments Preview */}
+            {attachments.length > 0 && (
+              <div className="flex gap-3 mb-3 overflow-x-auto p-2">
+                {attachments.map((att, idx) => (
+                  <AttachmentPreview key={idx} attachment={att} index={idx} compact onRemove={() => removeAttachment(idx)} />
+                ))}
+              </div>
+            )}
+
+            {attachmentError && (
+              <div className="flex items-start gap-2 mb-2 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-xs text-red-300">
+                <span className="flex-1">{attachmentError}</span>
+                <button onClick={() => setAttachmentError(null)} className="text-red-300 hover:text-white" title="Dismiss">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+
+            {/* Structured Mode Options */}
+            {isStructuredMode && (
+              <SchemaPicker
+                schemas={schemas}
+                selectedId={schemaId}
+                onSelect={setSchemaId}
+                onSchemasChange={handleSchemasChange}
+              />
+            )}
+
+            {/* Image Mode Options */}
+            {isImageMode && (
+              <div className="flex flex-wrap items-center gap-3 mb-2 px-2 text-xs text-gray-400">
+                <span className="flex items-center gap-1.5 text-secondary font-medium">
+                  <ImageIcon className="w-3.5 h-3.5" />
+                  Image mode
+                </span>
+                <select
+                  value={settings.imageAspectRatio}
+                  onChange={(e) => setSettings({ ...settings, imageAspectRatio: e.target.value as ImageAspectRatio })}
+                  className="bg-surface border border-white/10 rounded-lg px-2 py-1 text-white focus:border-secondary outline-none"
+                  title="Aspect ratio"
+                >
+                  {IMAGE_ASPECT_RATIOS.map(ratio => (
+                    <option key={ratio} value={ratio}>{ratio}</option>
+                  ))}
+                </select>
+                <div className="flex items-center gap-1" title="Variations">
+                  {Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1).map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setSettings({ ...settings, imageVariations: count })}
+                      className={`w-6 h-6 rounded-md font-mono transition-colors ${
+                        settings.imageVariations === count ? 'bg-secondary text-white' : 'bg-white/5 hover:bg-white/10'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+                {attachments.length === 0 && messages[messages.length - 1]?.imageGeneration && (
+                  <span className="text-gray-500">Follow-ups refine the last image</span>
+                )}
+              </div>
+            )}
+
+            <div className="relative flex items-end gap-2 bg-surface border border-white/10 rounded-2xl p-2 shadow-2xl focus-within:ring-2 focus-within:ring-primary/50 focus-within:border-primary transition-all">
+              <input 
+                type="file" 
+                ref={fileInputRef} 
+                className="hidden" 
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
+                onChange={handleFileUpload}
+              />
+            
+              <button 
+                onClick={() => fileInputRef.current?.click()}
+                className="p-3 text-gray-400 hover:text-white hover:bg-white/10 rounded-xl transition-colors shrink-0"
+                title="Attach files"
+              >
+                <Plus className="w-5 h-5" />
+              </button>
+
+              <button 
+                onClick={() => {
+                  setIsImageMode(!isImageMode);
+                  setIsStructuredMode(false);
+                }}
+                className={`p-3 rounded-xl transition-colors shrink-0 ${
+                  isImageMode ? 'bg-secondary/20 text-secondary' : 'text-gray-400 hover:text-white hover:bg-white/10'
+                }`}
+                title={isImageMode ? "Back to chat" : "Image mode"}
+              >
+                <ImageIcon className="w-5 h-5" />
+              </button>
+
+              <button 
+                onClick={() => {
+                  setIsStructuredMode(!isStructuredMode);
+                  setIsImageMode(false);
+                }}
+                className={`p-3 rounded-xl transition-colors shrink-0 ${
+                  isStructuredMode ? 'bg-primary/20 text-primary' : 'text-gray-400 hover:text-white hover:bg-white/10'
+                }`}
+                title={isStructuredMode ? "Back to chat" : "Structured output"}
+              >
+                <Braces className="w-5 h-5" />
+              </button>
+
+              <textarea
+                ref={textareaRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
+                placeholder={isImageMode
+                  ? (attachments.length > 0 ? "Describe how to change this image..." : "Describe an image to generate...")
+                  : isStructuredMode
+                    ? (attachments.length > 0 ? "What should be extracted from these files?" : "Describe the data you want...")
+                    : (attachments.length > 0 ? "Ask about these files..." : "Ask anything...")}
+                className="w-full bg-transparent border-none text-white placeholder-gray-500 focus:ring-0 resize-none py-3 max-h-48"
+                rows={1}
+              />
+
+              {isLoading ? (
+                <button 
+                  onClick={handleStop}
+                  className="p-3 rounded-xl transition-all duration-300 shrink-0 bg-white/10 text-white hover:bg-red-500/80"
+                  title="Stop generating"
+                >
+                  <StopCircle className="w-5 h-5" />
+                </button>
+              ) : (
+                <button 
+                  onClick={handleSendMessage}
+                  disabled={!canSend}
+                  className={`p-3 rounded-xl transition-all duration-300 shrink-0 ${
+                    !canSend
+                      ? 'bg-white/5 text-gray-500 cursor-not-allowed'
+                      : 'bg-primary text-white shadow-lg shadow-primary/25 hover:bg-primary/90 hover:scale-105'
+                  }`}
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
+            </div>
           
-          <div className="text-center mt-2 text-xs text-gray-600">
-            Nova may display inaccurate info, including about people, so double-check its responses.
+            <div className="text-center mt-2 text-xs text-gray-600">
+              Nova may display inaccurate info, including about people, so double-check its responses.
+            </div>
           </div>
-        </div>
-      </footer>
+        </footer>
+      </div>
     </div>
   );
 };
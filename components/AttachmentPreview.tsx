@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { X, FileText, FileCode, File, Music, Play } from 'lucide-react';
+import { Attachment } from '../types';
+import { attachmentLabel, formatFileSize, getAttachmentKind, getAttachmentSize } from '../services/attachments';
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+  index?: number;
+  compact?: boolean; // Small thumbnail for the composer instead of the full preview in a message
+  onRemove?: () => void;
+}
+
+const WAVEFORM_BARS = 48;
+
+// Peaks per preview URL, so scrolling back to a message doesn't decode its audio again
+const waveformCache = new Map<string, number[]>();
+
+const computePeaks = async (url: string): Promise<number[]> => {
+  const cached = waveformCache.get(url);
+  if (cached) return cached;
+
+  const encoded = await (await fetch(url)).arrayBuffer();
+  // An offline context decodes without opening an audio output
+  const audio = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(encoded);
+  const samples = audio.getChannelData(0);
+  const blockSize = Math.max(1, Math.floor(samples.length / WAVEFORM_BARS));
+
+  const peaks: number[] = [];
+  for (let bar = 0; bar < WAVEFORM_BARS; bar++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * blockSize);
+    for (let i = bar * blockSize; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks) || 1;
+  const normalized = peaks.map(p => p / loudest);
+  waveformCache.set(url, normalized);
+  return normalized;
+};
+
+const Waveform: React.FC<{ url: string, className?: string }> = ({ url, className }) => {
+  const [peaks, setPeaks] = useState<number[] | null>(() => waveformCache.get(url) ?? null);
+
+  useEffect(() => {
+    let cancelled = false;
+    computePeaks(url)
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(err => console.warn("Couldn't draw waveform", err));
+    return () => { cancelled = true; };
+  }, [url]);
+
+  return (
+    <svg viewBox={`0 0 ${WAVEFORM_BARS * 3} 24`} preserveAspectRatio="none" className={className}>
+      {Array.from({ length: WAVEFORM_BARS }, (_, i) => {
+        const height = Math.max(2, (peaks?.[i] ?? 0.1) * 24);
+        return <rect key={i} x={i * 3} y={(24 - height) / 2} width={2} height={height} rx={1} className="fill-current" />;
+      })}
+    </svg>
+  );
+};
+
+const FileIcon: React.FC<{ attachment: Attachment, className?: string }> = ({ attachment, className }) => {
+  switch (getAttachmentKind(attachment)) {
+    case 'pdf': return <FileText className={`${className} text-red-400`} />;
+    case 'text': return <FileCode className={`${className} text-primary`} />;
+    case 'audio': return <Music className={`${className} text-secondary`} />;
+    default: return <File className={className} />;
+  }
+};
+
+/**
+ * Shows an attachment the way its type suggests: images and video as thumbnails, audio as a
+ * waveform, and documents as a file chip with name and size.
+ */
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachment, index = 0, compact, onRemove }) => {
+  const kind = getAttachmentKind(attachment);
+  const name = attachmentLabel(attachment, index);
+  const size = formatFileSize(getAttachmentSize(attachment));
+
+  const removeButton = onRemove && (
+    <button
+      onClick={onRemove}
+      className="absolute top-1 right-1 p-1 bg-black/50 rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity"
+      title="Remove"
+    >
+      <X className="w-3 h-3" />
+    </button>
+  );
+
+  if (kind === 'image' || kind === 'video') {
+    const media = kind === 'image'
+      ? <img src={attachment.previewUrl} alt={name} className={compact ? 'w-full h-full object-cover' : 'h-32 w-auto object-cover'} />
+      // Seeking a little past the start makes the browser paint a frame as the thumbnail
+      : <video
+          src={compact ? `${attachment.previewUrl}#t=0.1` : attachment.previewUrl}
+          preload="metadata"
+          muted={compact}
+          playsInline
+          controls={!compact}
+          className={compact ? 'w-full h-full object-cover' : 'h-48 w-auto max-w-full bg-black'}
+        />;
+
+    return (
+      <div className={`relative group rounded-lg overflow-hidden border ${compact ? 'w-20 h-20 shrink-0 border-white/20' : 'border-white/10'}`} title={name}>
+        {media}
+        {kind === 'video' && compact && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <Play className="w-6 h-6 text-white drop-shadow" />
+          </div>
+        )}
+        {removeButton}
+      </div>
+    );
+  }
+
+  const details = (
+    <div className="min-w-0 flex-1">
+      <p className="text-sm text-white truncate">{name}</p>
+      <p className="text-xs text-gray-500 font-mono">{size}</p>
+    </div>
+  );
+
+  if (kind === 'audio') {
+    return (
+      <div className={`relative group flex flex-col gap-2 rounded-lg border bg-white/5 p-2 ${compact ? 'w-48 h-20 shrink-0 border-white/20' : 'w-72 border-white/10'}`} title={name}>
+        <div className="flex items-center gap-2">
+          <FileIcon attachment={attachment} className="w-4 h-4 shrink-0" />
+          {details}
+        </div>
+        {compact
+          ? <Waveform url={attachment.previewUrl} className="w-full h-5 text-secondary/70" />
+          : (
+            <>
+              <Waveform url={attachment.previewUrl} className="w-full h-8 text-secondary/70" />
+              <audio src={attachment.previewUrl} controls preload="metadata" className="w-full h-8" />
+            </>
+          )}
+        {removeButton}
+      </div>
+    );
+  }
+
+  const chipClass = `relative group flex items-center gap-3 rounded-lg border bg-white/5 p-3 ${compact ? 'w-48 h-20 shrink-0 border-white/20' : 'w-64 border-white/10 hover:bg-white/10 transition-colors'}`;
+  const chipContent = (
+    <>
+      <FileIcon attachment={attachment} className="w-8 h-8 shrink-0" />
+      {details}
+    </>
+  );
+
+  // In a message the chip opens the file, e.g. in the browser's PDF viewer
+  return compact ? (
+    <div className={chipClass} title={name}>
+      {chipContent}
+      {removeButton}
+    </div>
+  ) : (
+    <a href={attachment.previewUrl} target="_blank" rel="noreferrer" download={kind === 'pdf' ? undefined : name} className={chipClass} title={name}>
+      {chipContent}
+    </a>
+  );
+};
+
+export default AttachmentPreview;
@@ -1,19 +1,108 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Bot, User, AlertCircle, Play, Pause } from 'lucide-react';
-import { ChatMessage, MessageRole } from '../types';
+import { Bot, User, AlertCircle, Play, Pause, Scissors, Pencil, RefreshCw, RotateCcw, ChevronLeft, ChevronRight, Mic, FileAudio, Loader2, Users, Download, Wand2, Check, Braces } from 'lucide-react';
+import { Attachment, ChatMessage, MessageRole } from '../types';
+import ToolCallCard from './ToolCallCard';
+import ReasoningPanel from './ReasoningPanel';
+import StructuredOutputView from './StructuredOutputView';
+import SourceList from './SourceList';
+import KnowledgeSources from './KnowledgeSources';
+import CodeBlock from './CodeBlock';
+import MermaidDiagram from './MermaidDiagram';
+import AttachmentPreview from './AttachmentPreview';
+import { parseDialogue } from '../services/speechText';
+import { ContextStatus, formatTokenCount } from '../services/contextWindow';
+import { formatCost } from '../services/usage';
+import { ERROR_TITLES } from '../services/errors';
+import { insertCitationMarkers, sourceAnchorId } from '../services/grounding';
+import { REHYPE_PLUGINS, REMARK_PLUGINS, fencedCode, urlTransform } from '../services/markdown';
+import { base64ToBlob } from '../services/conversationStore';
+import { downloadBlob, extensionForMimeType, slugify } from '../services/exportService';
 
 interface ChatMessageBubbleProps {
   message: ChatMessage;
   isPlaying?: boolean;
+  isBusy?: boolean; // A reply is being generated; editing and regenerating are disabled
+  branchIndex?: number;
+  branchCount?: number;
   onPlayAudio?: (text: string) => void;
   onStopAudio?: () => void;
+  onPlayDialogue?: () => void;
+  isPreparingAudio?: boolean;
+  onDownloadAudio?: () => void;
+  onSelectSibling?: (offset: number) => void;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  onRetry?: () => void; // Resend the user message an error reply answers
+  onSelectCandidate?: (index: number) => void; // Continue with another of the reply's candidates
+  onEditImage?: (attachment: Attachment) => void; // Load a generated image into the composer for editing
+  contextStatus?: ContextStatus; // Set when the next turn won't send this message as it is
+  usageCost?: number | null; // USD for `message.usage`; null when the model has no price
 }
 
-const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message, isPlaying, onPlayAudio, onStopAudio }) => {
+const CONTEXT_STATUS_BADGES: Record<ContextStatus, { label: string, title: string }> = {
+  excluded: { label: 'Out of context', title: 'Too old to fit the token budget; not sent with new messages' },
+  summarized: { label: 'Summarized', title: 'Sent as part of a summary of earlier turns' },
+  attachmentsDropped: { label: 'Text only', title: "This message's attachments are no longer sent, to fit the token budget" },
+};
+
+const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ 
+  message, 
+  isPlaying, 
+  isBusy, 
+  branchIndex = 0, 
+  branchCount = 1, 
+  onPlayAudio, 
+  onStopAudio, 
+  onPlayDialogue,
+  isPreparingAudio,
+  onDownloadAudio,
+  onSelectSibling, 
+  onEdit, 
+  onRegenerate,
+  onRetry,
+  onSelectCandidate,
+  onEditImage,
+  contextStatus,
+  usageCost
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState('');
+  // Candidate being looked at; it only replaces the reply once picked
+  const [viewedCandidate, setViewedCandidate] = useState(message.selectedCandidate ?? 0);
+
   const isUser = message.role === MessageRole.USER;
   const isModel = message.role === MessageRole.MODEL;
+  // Only offered for finished replies written as a two-speaker script
+  const isDialogue = useMemo(
+    () => isModel && !message.isStreaming && parseDialogue(message.text) !== null,
+    [isModel, message.isStreaming, message.text]
+  );
   const isThinking = message.isThinking;
+  const candidates = message.candidates;
+  const selectedCandidate = message.selectedCandidate ?? 0;
+  const displayText = candidates && viewedCandidate !== selectedCandidate ? candidates[viewedCandidate] : message.text;
+  // Sources and citations belong to the first candidate; citations also point into its text
+  const showsFirstCandidate = viewedCandidate === 0 && selectedCandidate === 0;
+  const showCitations = !!message.citations && !message.isStreaming && showsFirstCandidate;
+  const markdown = useMemo(
+    () => showCitations ? insertCitationMarkers(displayText, message.citations!, i => `#${sourceAnchorId(message.id, i)}`) : displayText,
+    [showCitations, displayText, message.citations, message.id]
+  );
+
+  const startEditing = () => {
+    setEditText(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!editText.trim() || editText === message.text) {
+      setIsEditing(false);
+      return;
+    }
+    setIsEditing(false);
+    onEdit?.(editText);
+  };
 
   if (isThinking) {
     return (
@@ -23,14 +112,18 @@ const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message, isPlayin
         </div>
         <div className="flex-1 space-y-2">
           <div className="h-4 bg-white/10 rounded w-1/4"></div>
-          <div className="h-4 bg-white/5 rounded w-1/2"></div>
+          {message.text ? (
+            <p className="text-xs text-amber-300/80">{message.text}</p>
+          ) : (
+            <div className="h-4 bg-white/5 rounded w-1/2"></div>
+          )}
         </div>
       </div>
     );
   }
 
   return (
-    <div className={`flex gap-4 p-6 ${isModel ? 'bg-white/5' : ''} border-b border-white/5`}>
+    <div data-message-id={message.id} className={`flex gap-4 p-6 ${isModel ? 'bg-white/5' : ''} ${contextStatus && contextStatus !== 'attachmentsDropped' ? 'opacity-60' : ''} border-b border-white/5`}>
       <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${isUser ? 'bg-white text-darker' : 'bg-gradient-to-br from-primary to-secondary text-white'}`}>
         {isUser ? <User className="w-5 h-5" /> : <Bot className="w-5 h-5" />}
       </div>
@@ -43,46 +136,318 @@ const ChatMessageBubble: React.FC<ChatMessageBubbleProps> = ({ message, isPlayin
           <span className="text-xs text-gray-500">
             {new Date(message.timestamp).toLocaleTimeString()}
           </span>
-          {isModel && !message.isError && (
-            <button 
-              onClick={() => isPlaying ? onStopAudio?.() : onPlayAudio?.(message.text)}
-              className="ml-auto p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
-              title={isPlaying ? "Stop reading" : "Read aloud"}
+
+          {message.isVoice && (
+            <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/5 text-[10px] uppercase tracking-wider text-gray-400" title="Transcribed from a voice call">
+              <Mic className="w-3 h-3" />
+              Voice
+            </span>
+          )}
+
+          {isUser && message.structuredOutput && (
+            <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-white/5 text-[10px] uppercase tracking-wider text-gray-400" title="Asked for JSON following this schema">
+              <Braces className="w-3 h-3" />
+              {message.structuredOutput.name}
+            </span>
+          )}
+
+          {message.usage && (
+            <span
+              className="px-1.5 py-0.5 rounded bg-white/5 text-[10px] font-mono text-gray-500"
+              title={[
+                message.usage.model,
+                `${message.usage.promptTokens} prompt tokens (${message.usage.cachedTokens} cached)`,
+                `${message.usage.outputTokens} output tokens`,
+                `${message.usage.thinkingTokens} thinking tokens`,
+                `${(message.usage.latencyMs / 1000).toFixed(1)}s`,
+              ].join('\n')}
             >
-              {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
-            </button>
+              {formatTokenCount(message.usage.promptTokens)} → {formatTokenCount(message.usage.outputTokens + message.usage.thinkingTokens)}
+              {usageCost != null && ` · ${formatCost(usageCost)}`}
+            </span>
+          )}
+
+          {contextStatus && (
+            <span className="px-1.5 py-0.5 rounded bg-amber-400/10 text-[10px] uppercase tracking-wider text-amber-300/80" title={CONTEXT_STATUS_BADGES[contextStatus].title}>
+              {CONTEXT_STATUS_BADGES[contextStatus].label}
+            </span>
+          )}
+
+          {/* Branch navigation */}
+          {branchCount > 1 && (
+            <div className="flex items-center gap-0.5 text-xs text-gray-500 font-mono">
+              <button 
+                onClick={() => onSelectSibling?.(-1)}
+                disabled={isBusy || branchIndex === 0}
+                className="p-0.5 rounded hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                title="Previous version"
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span>{branchIndex + 1}/{branchCount}</span>
+              <button 
+                onClick={() => onSelectSibling?.(1)}
+                disabled={isBusy || branchIndex === branchCount - 1}
+                className="p-0.5 rounded hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                title="Next version"
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
           )}
+
+          <div className="ml-auto flex items-center gap-1">
+            {isUser && onEdit && !isEditing && !isBusy && (
+              <button 
+                onClick={startEditing}
+                className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                title="Edit message"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+            {isModel && onRegenerate && !message.isError && !message.isStreaming && !isBusy && (
+              <button 
+                onClick={onRegenerate}
+                className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                title="Regenerate response"
+              >
+                <RefreshCw className="w-3 h-3" />
+              </button>
+            )}
+            {isModel && !message.isError && !message.isStreaming && (
+              <button 
+                onClick={() => isPlaying ? onStopAudio?.() : onPlayAudio?.(message.text)}
+                className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                title={isPlaying ? "Stop reading" : "Read aloud"}
+              >
+                {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </button>
+            )}
+            {isDialogue && onPlayDialogue && !isPlaying && (
+              <button 
+                onClick={onPlayDialogue}
+                className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"
+                title="Read as dialogue"
+              >
+                <Users className="w-3 h-3" />
+              </button>
+            )}
+            {isModel && onDownloadAudio && !message.isError && !message.isStreaming && message.text && (
+              <button 
+                onClick={onDownloadAudio}
+                disabled={isPreparingAudio}
+                className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                title="Download audio"
+              >
+                {isPreparingAudio ? <Loader2 className="w-3 h-3 animate-spin" /> : <FileAudio className="w-3 h-3" />}
+              </button>
+            )}
+          </div>
         </div>
 
+        {/* Generated Images */}
+        {message.imageGeneration && message.attachments && message.attachments.length > 0 && (
+          <div className={`grid gap-3 mb-4 ${message.attachments.length > 1 ? 'grid-cols-2 max-w-2xl' : 'max-w-md'}`}>
+            {message.attachments.map((att, idx) => (
+              <div key={idx} className="relative group rounded-lg overflow-hidden border border-white/10 shadow-lg">
+                <img src={att.previewUrl} alt={message.imageGeneration!.prompt} className="w-full h-auto" />
+                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {onEditImage && !isBusy && (
+                    <button
+                      onClick={() => onEditImage(att)}
+                      className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                      title="Edit this image"
+                    >
+                      <Wand2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => downloadBlob(
+                      base64ToBlob(att.data, att.mimeType),
+                      `${slugify(message.imageGeneration!.prompt)}-${idx + 1}.${extensionForMimeType(att.mimeType)}`
+                    )}
+                    className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                    title="Download image"
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Attachments */}
-        {message.attachments && message.attachments.length > 0 && (
+        {!message.imageGeneration && message.attachments && message.attachments.length > 0 && (
           <div className="flex gap-2 mb-4 flex-wrap">
             {message.attachments.map((att, idx) => (
-              <div key={idx} className="relative group rounded-lg overflow-hidden border border-white/10">
-                <img src={att.previewUrl} alt="attachment" className="h-32 w-auto object-cover" />
-              </div>
+              <AttachmentPreview key={idx} attachment={att} index={idx} />
+            ))}
+          </div>
+        )}
+
+        {/* Reasoning */}
+        {message.thoughts && (
+          <ReasoningPanel 
+            thoughts={message.thoughts} 
+            thinkingTokens={message.thinkingTokens} 
+            isLive={!!message.isStreaming && !message.text}
+          />
+        )}
+
+        {/* Tool Calls */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <div className="space-y-2 mb-4">
+            {message.toolCalls.map(call => (
+              <ToolCallCard key={call.id} call={call} />
             ))}
           </div>
         )}
 
         {/* Message Content */}
-        {message.isError ? (
-           <div className="flex items-center gap-2 text-red-400 bg-red-400/10 p-3 rounded-lg border border-red-400/20">
-             <AlertCircle className="w-4 h-4" />
-             <p>{message.text}</p>
+        {isEditing ? (
+          <div className="space-y-2">
+            <textarea
+              autoFocus
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              className="w-full min-h-[80px] bg-darker border border-white/10 rounded-lg p-3 text-sm text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none resize-y"
+            />
+            <div className="flex justify-end gap-2">
+              <button 
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1.5 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+              >
+                Cancel
+              </button>
+              <button 
+                onClick={submitEdit}
+                className="px-3 py-1.5 rounded-lg text-xs bg-primary text-white hover:bg-primary/90 transition-colors"
+              >
+                Save & Submit
+              </button>
+            </div>
+          </div>
+        ) : message.isError ? (
+           <div className="flex items-start gap-2 text-red-400 bg-red-400/10 p-3 rounded-lg border border-red-400/20">
+             <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+             <div className="flex-1 min-w-0 space-y-1">
+               {message.errorKind && <p className="font-medium">{ERROR_TITLES[message.errorKind]}</p>}
+               <p>{message.text}</p>
+               {message.errorDetail && (
+                 <p className="text-xs text-red-300/60 font-mono break-words line-clamp-3" title={message.errorDetail}>{message.errorDetail}</p>
+               )}
+             </div>
+             {onRetry && !isBusy && (
+               <button
+                 onClick={onRetry}
+                 className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-white bg-red-400/20 hover:bg-red-400/30 transition-colors shrink-0"
+                 title="Send the message again"
+               >
+                 <RotateCcw className="w-3 h-3" />
+                 Retry
+               </button>
+             )}
            </div>
+        ) : isModel && message.structuredOutput && !message.isStreaming ? (
+          <StructuredOutputView text={displayText} structuredOutput={message.structuredOutput} />
         ) : (
           <div className="prose prose-invert prose-sm max-w-none prose-p:leading-relaxed prose-pre:bg-black/50 prose-pre:border prose-pre:border-white/10">
             {/* Custom renderer for images inside markdown if they exist (e.g. from Image Gen) */}
             <ReactMarkdown 
+              urlTransform={urlTransform}
+              remarkPlugins={REMARK_PLUGINS}
+              rehypePlugins={REHYPE_PLUGINS}
               components={{
                 img: ({node, ...props}) => (
                   <img {...props} className="rounded-lg shadow-lg border border-white/10 max-w-sm" alt={props.alt || 'Generated Content'} />
+                ),
+                // Fenced code blocks; inline code keeps the default rendering
+                pre: ({node, children}) => {
+                  const block = fencedCode(children);
+                  if (!block) return <pre>{children}</pre>;
+                  // Diagrams are drawn once the reply is complete, rather than at every streamed chunk
+                  if (block.language === 'mermaid' && !message.isStreaming) return <MermaidDiagram source={block.code} />;
+                  return <CodeBlock code={block.code} language={block.language} />;
+                },
+                // Citation markers link to the source list; other links open normally
+                a: ({node, ...props}) => props.href?.startsWith(`#source-${message.id}-`) ? (
+                  <a
+                    href={props.href}
+                    className="inline-flex items-center justify-center min-w-[1.25rem] h-4 px-1 mx-px rounded bg-primary/20 text-[10px] font-mono text-primary no-underline align-super hover:bg-primary/30"
+                    title={message.sources?.[Number(props.children) - 1]?.title}
+                  >
+                    {props.children}
+                  </a>
+                ) : (
+                  <a {...props} />
                 )
               }}
             >
-              {message.text}
+              {markdown}
             </ReactMarkdown>
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-primary animate-pulse" />
+            )}
+          </div>
+        )}
+
+        {/* Sources */}
+        {message.sources && showsFirstCandidate && !message.isStreaming && !isEditing && (
+          <SourceList messageId={message.id} sources={message.sources} searchQueries={message.searchQueries} />
+        )}
+        {message.knowledge && !message.isStreaming && !isEditing && (
+          <KnowledgeSources references={message.knowledge} />
+        )}
+
+        {/* Candidates */}
+        {candidates && candidates.length > 1 && !isEditing && (
+          <div className="flex items-center gap-2 mt-3 text-xs text-gray-500">
+            <div className="flex items-center gap-0.5 font-mono">
+              <button
+                onClick={() => setViewedCandidate(i => i - 1)}
+                disabled={viewedCandidate === 0}
+                className="p-0.5 rounded hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                title="Previous candidate"
+              >
+                <ChevronLeft className="w-3.5 h-3.5" />
+              </button>
+              <span>Candidate {viewedCandidate + 1}/{candidates.length}</span>
+              <button
+                onClick={() => setViewedCandidate(i => i + 1)}
+                disabled={viewedCandidate === candidates.length - 1}
+                className="p-0.5 rounded hover:text-white disabled:opacity-30 disabled:hover:text-gray-500"
+                title="Next candidate"
+              >
+                <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {viewedCandidate === selectedCandidate ? (
+              <span className="flex items-center gap-1 text-primary/80"><Check className="w-3 h-3" /> In use</span>
+            ) : onSelectCandidate && !isBusy && (
+              <button
+                onClick={() => onSelectCandidate(viewedCandidate)}
+                className="px-2 py-0.5 rounded bg-primary/20 text-white hover:bg-primary/30 transition-colors"
+                title="Continue the conversation with this candidate"
+              >
+                Use this one
+              </button>
+            )}
+          </div>
+        )}
+
+        {message.isTruncated && (
+          <div className="flex items-center gap-1.5 mt-3 text-xs text-amber-400/80">
+            <Scissors className="w-3 h-3" />
+            <span>Response stopped early</span>
           </div>
         )}
       </div>
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Copy, Check, Download, Play, Square, X, Loader2 } from 'lucide-react';
+import { TokenType, highlightCode } from '../services/codeHighlight';
+import { ConsoleEntry, ScriptRunResult, buildHtmlDocument, extensionForLanguage, parseSandboxMessage, runScript, runnableKind } from '../services/codeRunner';
+import { downloadBlob } from '../services/exportService';
+import { CODE_RUN_TIMEOUT_MS, MAX_CONSOLE_ENTRIES } from '../constants';
+
+interface CodeBlockProps {
+  code: string;
+  language: string; // From the fence's info string; may be empty
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-gray-500 italic',
+  string: 'text-emerald-300',
+  keyword: 'text-violet-300',
+  literal: 'text-amber-300',
+  number: 'text-sky-300',
+  tag: 'text-pink-300',
+  attr: 'text-sky-200',
+};
+
+const LOG_CLASSES: Record<ConsoleEntry['level'], string> = {
+  log: 'text-gray-300',
+  info: 'text-sky-300',
+  debug: 'text-gray-500',
+  warn: 'text-amber-300 bg-amber-400/5',
+  error: 'text-red-300 bg-red-400/5',
+};
+
+/**
+ * A fenced code block with highlighting and line numbers, plus copy, download and, for
+ * JavaScript, TypeScript and HTML, a sandboxed Run with its console output.
+ */
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const [copied, setCopied] = useState(false);
+  const [logs, setLogs] = useState<ConsoleEntry[] | null>(null); // Null until the code has been run
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<ScriptRunResult | null>(null);
+  const [htmlDocument, setHtmlDocument] = useState<string | null>(null);
+  const [htmlStopped, setHtmlStopped] = useState(false);
+  // Bumped on every run so running the same HTML again reloads the preview
+  const [runCount, setRunCount] = useState(0);
+  const runControllerRef = useRef<AbortController | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const lastHeartbeatRef = useRef(0);
+
+  const lines = useMemo(() => highlightCode(code, language), [code, language]);
+  const kind = runnableKind(language);
+
+  // Stop a running script when the block goes away
+  useEffect(() => () => runControllerRef.current?.abort(), []);
+
+  // Console output from the HTML preview, and a watchdog that removes it once it stops responding
+  useEffect(() => {
+    if (htmlDocument === null) return;
+    lastHeartbeatRef.current = Date.now();
+    let logCount = 0;
+
+    const onMessage = (e: MessageEvent) => {
+      if (e.source !== iframeRef.current?.contentWindow) return;
+      const message = parseSandboxMessage(e.data);
+      if (message?.type === 'heartbeat') lastHeartbeatRef.current = Date.now();
+      if (message?.type !== 'log') return;
+      if (++logCount === MAX_CONSOLE_ENTRIES + 1) {
+        setLogs(prev => [...(prev || []), { level: 'warn', text: `Output truncated after ${MAX_CONSOLE_ENTRIES} entries` }]);
+      }
+      if (logCount <= MAX_CONSOLE_ENTRIES) setLogs(prev => [...(prev || []), message.entry]);
+    };
+    const watchdog = setInterval(() => {
+      if (Date.now() - lastHeartbeatRef.current < CODE_RUN_TIMEOUT_MS) return;
+      setHtmlDocument(null);
+      setHtmlStopped(true);
+    }, 1000);
+
+    window.addEventListener('message', onMessage);
+    return () => {
+      window.removeEventListener('message', onMessage);
+      clearInterval(watchdog);
+    };
+  }, [htmlDocument, runCount]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch (err) {
+      console.error("Failed to copy the code", err);
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([code], { type: 'text/plain' }), `snippet.${extensionForLanguage(language)}`);
+  };
+
+  const handleRun = async () => {
+    setLogs([]);
+    setResult(null);
+    setHtmlStopped(false);
+    setRunCount(count => count + 1);
+
+    if (kind === 'html') {
+      setHtmlDocument(buildHtmlDocument(code));
+      return;
+    }
+    if (!kind) return;
+
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    setIsRunning(true);
+    const runResult = await runScript(code, kind, {
+      signal: controller.signal,
+      onLog: entry => setLogs(prev => [...(prev || []), entry]),
+    });
+    if (runControllerRef.current === controller) {
+      runControllerRef.current = null;
+      setIsRunning(false);
+      setResult(runResult);
+    }
+  };
+
+  const closeOutput = () => {
+    const controller = runControllerRef.current;
+    runControllerRef.current = null;
+    controller?.abort();
+    setIsRunning(false);
+    setLogs(null);
+    setResult(null);
+    setHtmlDocument(null);
+    setHtmlStopped(false);
+  };
+
+  const toolButton = 'flex items-center gap-1 px-2 py-1 rounded-md hover:text-white hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="not-prose my-4 rounded-lg border border-white/10 bg-black/50 overflow-hidden">
+      <div className="flex items-center gap-1 px-3 py-1.5 border-b border-white/10 text-xs text-gray-400">
+        <span className="font-mono text-gray-500">{language || 'text'}</span>
+        <div className="ml-auto flex items-center">
+          {kind && (isRunning ? (
+            <button onClick={() => runControllerRef.current?.abort()} className={toolButton} title="Stop">
+              <Square className="w-3.5 h-3.5" />
+              Stop
+            </button>
+          ) : (
+            <button onClick={handleRun} className={toolButton} title="Run in a sandbox">
+              <Play className="w-3.5 h-3.5" />
+              Run
+            </button>
+          ))}
+          <button onClick={handleCopy} className={toolButton} title="Copy code">
+            {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+          </button>
+          <button onClick={handleDownload} className={toolButton} title="Download as file">
+            <Download className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <pre className="overflow-x-auto py-3 text-xs leading-relaxed font-mono">
+        {lines.map((tokens, i) => (
+          <div key={i} className="flex">
+            <span className="w-10 shrink-0 pr-3 text-right text-gray-600 select-none">{i + 1}</span>
+            <code className="pr-4 whitespace-pre text-gray-200">
+              {tokens.map((token, j) => (
+                <span key={j} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+              ))}
+            </code>
+          </div>
+        ))}
+      </pre>
+
+      {logs !== null && (
+        <div className="border-t border-white/10 text-xs">
+          <div className="flex items-center gap-2 px-3 py-1.5 text-gray-500">
+            <span className="font-medium text-gray-400">{kind === 'html' ? 'Preview' : 'Output'}</span>
+            {isRunning && <Loader2 className="w-3 h-3 animate-spin" />}
+            {result && !result.error && !result.timedOut && <span>Finished in {result.durationMs} ms</span>}
+            {result?.timedOut && <span className="text-amber-400/80">Timed out and stopped</span>}
+            {htmlStopped && <span className="text-amber-400/80">Stopped: the page stopped responding</span>}
+            <button onClick={closeOutput} className="ml-auto p-0.5 rounded hover:text-white" title="Close output">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          {htmlDocument !== null && (
+            <iframe
+              key={runCount}
+              ref={iframeRef}
+              srcDoc={htmlDocument}
+              sandbox="allow-scripts allow-modals allow-forms"
+              title="HTML preview"
+              className="w-full h-64 bg-white border-t border-white/10"
+            />
+          )}
+
+          {(logs.length > 0 || result?.error) && (
+            <div className="max-h-60 overflow-y-auto font-mono border-t border-white/5">
+              {logs.map((entry, i) => (
+                <pre key={i} className={`px-3 py-0.5 whitespace-pre-wrap break-words ${LOG_CLASSES[entry.level]}`}>{entry.text}</pre>
+              ))}
+              {result?.error && (
+                <pre className={`px-3 py-0.5 whitespace-pre-wrap break-words ${LOG_CLASSES.error}`}>{result.error}</pre>
+              )}
+            </div>
+          )}
+
+          {kind !== 'html' && !isRunning && logs.length === 0 && !result?.error && (
+            <p className="px-3 pb-2 text-gray-600">No console output</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeBlock;
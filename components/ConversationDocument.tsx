@@ -0,0 +1,71 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import { ChatMessage, Conversation, MessageRole } from '../types';
+import { attachmentLabel, formatFileSize, getAttachmentKind, getAttachmentSize } from '../services/attachments';
+import { REHYPE_PLUGINS, REMARK_PLUGINS, fencedCode, urlTransform } from '../services/markdown';
+
+interface ConversationDocumentProps {
+  conversation: Conversation;
+  messages: ChatMessage[];
+  diagrams: Record<string, string>; // Pre-rendered Mermaid SVG by source; missing ones stay code
+}
+
+/**
+ * Static transcript used for the HTML export. It is rendered to markup once, so it
+ * avoids interactive controls and relies on the stylesheet embedded by the exporter.
+ */
+const ConversationDocument: React.FC<ConversationDocumentProps> = ({ conversation, messages, diagrams }) => {
+  return (
+    <main className="transcript">
+      <header>
+        <h1>{conversation.title}</h1>
+        <p className="meta">
+          {conversation.settings.model} · {new Date(conversation.createdAt).toLocaleString()}
+        </p>
+      </header>
+
+      {messages.map(message => {
+        const isUser = message.role === MessageRole.USER;
+        return (
+          <article key={message.id} className={`message ${isUser ? 'user' : 'model'}${message.isError ? ' error' : ''}`}>
+            <div className="author">
+              <span className="avatar">{isUser ? 'You' : 'AI'}</span>
+              <strong>{isUser ? 'You' : 'Nova AI'}</strong>
+              <time>{new Date(message.timestamp).toLocaleString()}</time>
+            </div>
+
+            {message.attachments && message.attachments.length > 0 && (
+              <div className="attachments">
+                {message.attachments.map((att, idx) => getAttachmentKind(att) === 'image'
+                  ? <img key={idx} src={`data:${att.mimeType};base64,${att.data}`} alt="attachment" />
+                  : <span key={idx} className="file">📎 {attachmentLabel(att, idx)} · {formatFileSize(getAttachmentSize(att))}</span>
+                )}
+              </div>
+            )}
+
+            <div className="content">
+              {message.isError ? <p>{message.text}</p> : (
+                <ReactMarkdown
+                  urlTransform={urlTransform}
+                  remarkPlugins={REMARK_PLUGINS}
+                  rehypePlugins={REHYPE_PLUGINS}
+                  components={{
+                    pre: ({node, children}) => {
+                      const block = fencedCode(children);
+                      const svg = block?.language === 'mermaid' ? diagrams[block.code] : undefined;
+                      return svg ? <div className="diagram" dangerouslySetInnerHTML={{ __html: svg }} /> : <pre>{children}</pre>;
+                    }
+                  }}
+                >
+                  {message.text}
+                </ReactMarkdown>
+              )}
+            </div>
+          </article>
+        );
+      })}
+    </main>
+  );
+};
+
+export default ConversationDocument;
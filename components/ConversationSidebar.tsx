@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Plus, MessageSquare, Pencil, Trash2, Archive, ArchiveRestore, Check, X, ChevronDown, ChevronRight, Upload } from 'lucide-react';
+import { Conversation } from '../types';
+
+interface ConversationSidebarProps {
+  isOpen: boolean;
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onToggleArchive: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  isOpen,
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onToggleArchive,
+  onImport,
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+
+  if (!isOpen) return null;
+
+  const activeConversations = conversations.filter(c => !c.isArchived);
+  const archivedConversations = conversations.filter(c => c.isArchived);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const renderItem = (conversation: Conversation) => {
+    const isActive = conversation.id === activeConversationId;
+    const isEditing = conversation.id === editingId;
+
+    return (
+      <div
+        key={conversation.id}
+        onClick={() => !isEditing && onSelect(conversation.id)}
+        className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+          isActive ? 'bg-primary/15 text-white' : 'text-gray-400 hover:bg-white/5 hover:text-white'
+        }`}
+      >
+        <MessageSquare className="w-4 h-4 shrink-0" />
+
+        {isEditing ? (
+          <>
+            <input
+              autoFocus
+              value={editingTitle}
+              onChange={(e) => setEditingTitle(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditingId(null);
+              }}
+              className="flex-1 min-w-0 bg-darker border border-white/10 rounded px-2 py-0.5 text-sm text-white outline-none focus:border-primary"
+            />
+            <button onClick={(e) => { e.stopPropagation(); commitRename(); }} className="p-1 hover:text-white" title="Save">
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={(e) => { e.stopPropagation(); setEditingId(null); }} className="p-1 hover:text-white" title="Cancel">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 min-w-0 truncate text-sm">{conversation.title}</span>
+            <div className="hidden group-hover:flex items-center gap-0.5">
+              <button onClick={(e) => { e.stopPropagation(); startRename(conversation); }} className="p-1 hover:text-white" title="Rename">
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); onToggleArchive(conversation.id); }} className="p-1 hover:text-white" title={conversation.isArchived ? 'Unarchive' : 'Archive'}>
+                {conversation.isArchived ? <ArchiveRestore className="w-3.5 h-3.5" /> : <Archive className="w-3.5 h-3.5" />}
+              </button>
+              <button onClick={(e) => { e.stopPropagation(); handleDelete(conversation); }} className="p-1 hover:text-red-400" title="Delete">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <aside className="w-72 shrink-0 h-full flex flex-col bg-surface/40 border-r border-white/10">
+      <div className="p-4 flex gap-2">
+        <button
+          onClick={onCreate}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2.5 rounded-lg bg-primary/10 text-primary hover:bg-primary/20 border border-primary/20 transition-all font-medium text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          New conversation
+        </button>
+        <input
+          type="file"
+          ref={importInputRef}
+          className="hidden"
+          accept="application/json,.json"
+          onChange={(e) => {
+            if (e.target.files?.[0]) onImport(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => importInputRef.current?.click()}
+          className="px-3 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+          title="Import conversation (JSON)"
+        >
+          <Upload className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+        {activeConversations.map(renderItem)}
+
+        {archivedConversations.length > 0 && (
+          <div className="pt-4">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="flex items-center gap-1 px-3 py-1 text-xs font-medium uppercase tracking-wider text-gray-500 hover:text-gray-300"
+            >
+              {showArchived ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              Archived ({archivedConversations.length})
+            </button>
+            {showArchived && <div className="mt-1 space-y-1">{archivedConversations.map(renderItem)}</div>}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Download, FileText, FileArchive, FileJson, FileCode } from 'lucide-react';
+import { Conversation } from '../types';
+import { downloadBlob, exportAsHtml, exportAsJson, exportAsMarkdown, slugify } from '../services/exportService';
+
+interface ExportMenuProps {
+  conversation: Conversation | undefined;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ conversation }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!conversation || conversation.messages.length === 0) return null;
+
+  const baseName = slugify(conversation.title);
+
+  const runExport = async (format: 'markdown' | 'markdown-zip' | 'json' | 'html') => {
+    setIsOpen(false);
+    try {
+      switch (format) {
+        case 'markdown':
+          downloadBlob(await exportAsMarkdown(conversation, 'inline'), `${baseName}.md`);
+          break;
+        case 'markdown-zip':
+          downloadBlob(await exportAsMarkdown(conversation, 'zip'), `${baseName}.zip`);
+          break;
+        case 'json':
+          downloadBlob(exportAsJson(conversation), `${baseName}.json`);
+          break;
+        case 'html':
+          downloadBlob(await exportAsHtml(conversation), `${baseName}.html`);
+          break;
+      }
+    } catch (err) {
+      console.error("Export failed", err);
+    }
+  };
+
+  const items = [
+    { format: 'markdown' as const, label: 'Markdown', hint: 'Images inlined', icon: FileText },
+    { format: 'markdown-zip' as const, label: 'Markdown + images', hint: 'Zip archive', icon: FileArchive },
+    { format: 'html' as const, label: 'HTML', hint: 'Single styled page', icon: FileCode },
+    { format: 'json' as const, label: 'JSON', hint: 'Full backup, re-importable', icon: FileJson },
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="p-2 rounded-lg hover:bg-white/5 text-gray-400 hover:text-white transition-colors"
+        title="Export conversation"
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-60 z-30 bg-surface border border-white/10 rounded-xl shadow-2xl p-1">
+            {items.map(({ format, label, hint, icon: Icon }) => (
+              <button
+                key={format}
+                onClick={() => runExport(format)}
+                className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left hover:bg-white/5 transition-colors"
+              >
+                <Icon className="w-4 h-4 text-primary shrink-0" />
+                <span className="flex flex-col">
+                  <span className="text-sm text-white">{label}</span>
+                  <span className="text-xs text-gray-500">{hint}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
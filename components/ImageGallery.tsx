@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { X, Search, Images, Download, RefreshCw, MessageSquare, CheckSquare, Square, Loader2 } from 'lucide-react';
+import { Conversation } from '../types';
+import { GalleryImage, GalleryImageSource, collectGalleryImages, galleryImageBlob, galleryImageFilename, zipGalleryImages } from '../services/gallery';
+import { downloadBlob } from '../services/exportService';
+
+interface ImageGalleryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversations: Conversation[];
+  onOpenMessage: (conversationId: string, messageId: string) => void;
+  onRerun: (image: GalleryImage) => void;
+}
+
+type SourceFilter = 'all' | GalleryImageSource;
+
+const SOURCE_FILTERS: { value: SourceFilter, label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'generated', label: 'Generated' },
+  { value: 'uploaded', label: 'Uploaded' },
+];
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ isOpen, onClose, conversations, onOpenMessage, onRerun }) => {
+  const [query, setQuery] = useState('');
+  const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isZipping, setIsZipping] = useState(false);
+
+  const images = useMemo(() => isOpen ? collectGalleryImages(conversations) : [], [isOpen, conversations]);
+
+  const visibleImages = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return images.filter(image =>
+      (sourceFilter === 'all' || image.source === sourceFilter) &&
+      (!needle || image.prompt.toLowerCase().includes(needle) || image.conversationTitle.toLowerCase().includes(needle))
+    );
+  }, [images, query, sourceFilter]);
+
+  if (!isOpen) return null;
+
+  const selectedImages = visibleImages.filter(image => selectedIds.has(image.id));
+  const allSelected = visibleImages.length > 0 && selectedImages.length === visibleImages.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(visibleImages.map(image => image.id)));
+  };
+
+  const downloadSelected = async () => {
+    if (selectedImages.length === 1) {
+      downloadBlob(galleryImageBlob(selectedImages[0]), galleryImageFilename(selectedImages[0]));
+      return;
+    }
+    setIsZipping(true);
+    try {
+      downloadBlob(await zipGalleryImages(selectedImages), 'nova-images.zip');
+    } catch (err) {
+      console.error("Bulk download failed", err);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-darker/95 backdrop-blur-xl animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3 p-4 border-b border-white/10">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2 mr-2">
+          <Images className="w-5 h-5 text-primary" /> Gallery
+          <span className="text-xs font-mono text-gray-500">{visibleImages.length}</span>
+        </h2>
+
+        <div className="relative flex-1 min-w-[12rem] max-w-md">
+          <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search prompts and conversations..."
+            className="w-full bg-surface border border-white/10 rounded-lg pl-9 pr-3 py-2 text-sm text-white focus:border-primary outline-none"
+          />
+        </div>
+
+        <div className="flex rounded-lg border border-white/10 overflow-hidden text-sm">
+          {SOURCE_FILTERS.map(filter => (
+            <button
+              key={filter.value}
+              onClick={() => setSourceFilter(filter.value)}
+              className={`px-3 py-1.5 transition-colors ${sourceFilter === filter.value ? 'bg-primary/20 text-white' : 'text-gray-400 hover:bg-white/5'}`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={toggleSelectAll}
+            disabled={visibleImages.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+          >
+            {allSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+            Select all
+          </button>
+          <button
+            onClick={downloadSelected}
+            disabled={selectedImages.length === 0 || isZipping}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-primary/10 text-primary border border-primary/20 hover:bg-primary/20 transition-colors disabled:opacity-50"
+          >
+            {isZipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Download{selectedImages.length > 0 ? ` (${selectedImages.length})` : ''}
+          </button>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {visibleImages.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center text-gray-500">
+            <Images className="w-10 h-10 mb-3 opacity-50" />
+            <p>{images.length === 0 ? 'Generated and uploaded images will appear here.' : 'No images match your search.'}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+            {visibleImages.map(image => {
+              const isSelected = selectedIds.has(image.id);
+              return (
+                <div
+                  key={image.id}
+                  className={`group flex flex-col rounded-xl overflow-hidden border bg-surface/60 transition-colors ${isSelected ? 'border-primary' : 'border-white/10'}`}
+                >
+                  <div className="relative aspect-square bg-black/40">
+                    <img src={image.src} alt={image.prompt} className="w-full h-full object-contain" loading="lazy" />
+                    <button
+                      onClick={() => toggleSelected(image.id)}
+                      className={`absolute top-2 left-2 p-1 rounded bg-black/60 text-white transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                      title={isSelected ? 'Deselect' : 'Select'}
+                    >
+                      {isSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                    </button>
+                    <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => onOpenMessage(image.conversationId, image.messageId)}
+                        className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                        title="Show in conversation"
+                      >
+                        <MessageSquare className="w-3.5 h-3.5" />
+                      </button>
+                      {image.source === 'generated' && image.prompt && (
+                        <button
+                          onClick={() => onRerun(image)}
+                          className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                          title="Run this prompt again"
+                        >
+                          <RefreshCw className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => downloadBlob(galleryImageBlob(image), galleryImageFilename(image))}
+                        className="p-1.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                        title="Download image"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="p-3 space-y-1 text-xs">
+                    <p className="text-sm text-white line-clamp-2" title={image.prompt}>
+                      {image.prompt || <span className="italic text-gray-500">No prompt</span>}
+                    </p>
+                    <p className="text-gray-500 font-mono truncate">
+                      {image.source === 'generated'
+                        ? [image.model, image.aspectRatio].filter(Boolean).join(' · ')
+                        : 'Uploaded'}
+                    </p>
+                    <p className="text-gray-500 truncate" title={image.conversationTitle}>
+                      {new Date(image.timestamp).toLocaleString()} · {image.conversationTitle}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageGallery;
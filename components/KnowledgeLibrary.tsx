@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Library, Upload, Trash2, Loader2, FileText, AlertCircle } from 'lucide-react';
+import { AppSettings, KnowledgeDocument } from '../types';
+import { KNOWLEDGE_FILE_TYPES, formatFileSize } from '../services/attachments';
+import {
+  addKnowledgeDocument, deleteKnowledgeDocument, loadEmbeddingsEnabled, loadKnowledgeDocuments, saveEmbeddingsEnabled
+} from '../services/knowledgeBase';
+
+interface KnowledgeLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+}
+
+/**
+ * The knowledge library: adds and removes the documents that replies can draw on, and
+ * switches their use on for the current conversation.
+ */
+const KnowledgeLibrary: React.FC<KnowledgeLibraryProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [isLoadingDocuments, setIsLoadingDocuments] = useState(false);
+  const [indexing, setIndexing] = useState<string[]>([]); // Names of files being added
+  const [notices, setNotices] = useState<string[]>([]);
+  const [useEmbeddings, setUseEmbeddings] = useState(loadEmbeddingsEnabled);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoadingDocuments(true);
+    loadKnowledgeDocuments()
+      .then(setDocuments)
+      .catch(err => console.error("Failed to load the knowledge library", err))
+      .finally(() => setIsLoadingDocuments(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const toggleEmbeddings = () => {
+    saveEmbeddingsEnabled(!useEmbeddings);
+    setUseEmbeddings(!useEmbeddings);
+  };
+
+  // Files are indexed one at a time; each shows up in the list as soon as it is ready
+  const addFiles = async (files: File[]) => {
+    setNotices([]);
+    setIndexing(files.map(f => f.name));
+    for (const file of files) {
+      try {
+        const { document, embeddingError } = await addKnowledgeDocument(file, settings, useEmbeddings);
+        setDocuments(prev => [document, ...prev]);
+        if (embeddingError) setNotices(prev => [...prev, `${file.name} was added for keyword search only: ${embeddingError}`]);
+      } catch (err: any) {
+        console.error("Failed to add to the knowledge library", err);
+        setNotices(prev => [...prev, err.message || `Couldn't add ${file.name}.`]);
+      }
+      setIndexing(prev => prev.filter(name => name !== file.name));
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) addFiles(Array.from(e.target.files));
+    e.target.value = '';
+  };
+
+  const removeDocument = async (doc: KnowledgeDocument) => {
+    if (!window.confirm(`Remove "${doc.name}" from the library? Replies that used it keep their passages.`)) return;
+    try {
+      await deleteKnowledgeDocument(doc.id);
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+    } catch (err) {
+      console.error("Failed to remove from the knowledge library", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-darker/95 backdrop-blur-xl animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3 p-4 border-b border-white/10">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2 mr-2">
+          <Library className="w-5 h-5 text-primary" /> Knowledge
+          {isLoadingDocuments && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+        </h2>
+
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enableKnowledge}
+            onChange={() => onSettingsChange({ ...settings, enableKnowledge: !settings.enableKnowledge })}
+            className="accent-primary"
+          />
+          Use in this conversation
+        </label>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm bg-primary text-white hover:bg-primary/90 transition-colors"
+          >
+            <Upload className="w-4 h-4" />
+            Add files
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={KNOWLEDGE_FILE_TYPES}
+            onChange={handleFileInput}
+            className="hidden"
+          />
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 max-w-4xl w-full mx-auto">
+        <p className="text-sm text-gray-400">
+          Text, Markdown, PDF and code files are split into passages and indexed on this device.
+          With the library on, the passages that best match each message are sent along with it,
+          and the reply lists the ones it was given.
+        </p>
+
+        <label className="flex items-start gap-2 text-sm text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={useEmbeddings} onChange={toggleEmbeddings} className="accent-primary mt-1" />
+          <span>
+            Also search by meaning
+            <span className="block text-xs text-gray-500">
+              Files added from now on, and each message searched, are embedded by the conversation's provider, which sends their text to it.
+              Only Gemini can embed; with it off, or another provider, search uses keywords only and nothing leaves this device.
+            </span>
+          </span>
+        </label>
+
+        {notices.length > 0 && (
+          <div className="space-y-1">
+            {notices.map((notice, i) => (
+              <p key={i} className="flex items-start gap-2 text-xs text-amber-400/90">
+                <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                {notice}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <section className="bg-surface/60 border border-white/10 rounded-xl overflow-hidden">
+          {indexing.map(name => (
+            <div key={name} className="flex items-center gap-3 px-4 py-3 border-b border-white/5 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+              <span className="truncate">Indexing {name}…</span>
+            </div>
+          ))}
+          {documents.length === 0 && indexing.length === 0 ? (
+            <p className="px-4 py-8 text-sm text-gray-500 text-center">The library is empty. Add files to get started.</p>
+          ) : (
+            documents.map(doc => (
+              <div key={doc.id} className="group flex items-center gap-3 px-4 py-3 border-b border-white/5 last:border-b-0">
+                <FileText className="w-4 h-4 shrink-0 text-gray-500" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-white truncate" title={doc.name}>{doc.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(doc.size)} · {doc.chunkCount} passage{doc.chunkCount === 1 ? '' : 's'} · {doc.embeddingModel ? 'Keywords and meaning' : 'Keywords'} · Added {new Date(doc.addedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removeDocument(doc)}
+                  className="p-1.5 rounded-md text-gray-500 hover:text-red-400 hover:bg-white/5 opacity-0 group-hover:opacity-100 transition-all"
+                  title="Remove from library"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeLibrary;
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Library, X, Loader2 } from 'lucide-react';
+import { KnowledgeReference } from '../types';
+import { loadKnowledgeDocumentText } from '../services/knowledgeBase';
+
+interface KnowledgeSourcesProps {
+  references: KnowledgeReference[];
+}
+
+/**
+ * A passage shown where it sits in its document, which is loaded from the library. When
+ * the document has been removed since, only the copy kept on the reply is shown.
+ */
+const PassageViewer: React.FC<{ reference: KnowledgeReference, onClose: () => void }> = ({ reference, onClose }) => {
+  const [documentText, setDocumentText] = useState<string | null | undefined>(undefined); // Null once known to be gone
+  const passageRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    loadKnowledgeDocumentText(reference.documentId)
+      .then(text => setDocumentText(text ?? null))
+      .catch(err => {
+        console.error("Failed to load the document", err);
+        setDocumentText(null);
+      });
+  }, [reference.documentId]);
+
+  useEffect(() => {
+    if (documentText !== undefined) passageRef.current?.scrollIntoView({ block: 'center' });
+  }, [documentText]);
+
+  // The stored offsets only hold while the document is the one the passage came from
+  const inContext = !!documentText && documentText.slice(reference.start, reference.end) === reference.text;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[80vh] flex flex-col bg-dark border border-white/10 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+          <Library className="w-4 h-4 text-primary shrink-0" />
+          <h3 className="text-sm font-medium text-white truncate">{reference.documentName}</h3>
+          {documentText === undefined && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-500" />}
+          <button onClick={onClose} className="ml-auto p-1 rounded-md text-gray-400 hover:text-white hover:bg-white/5">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {documentText === null && (
+          <p className="px-4 pt-3 text-xs text-gray-500">This document is no longer in the library; showing the passage as it was used.</p>
+        )}
+        <pre className="flex-1 overflow-y-auto p-4 text-xs leading-relaxed text-gray-400 whitespace-pre-wrap break-words font-mono">
+          {inContext && documentText.slice(0, reference.start)}
+          <mark ref={passageRef} className="bg-primary/20 text-gray-100 rounded-sm">{reference.text}</mark>
+          {inContext && documentText.slice(reference.end)}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * The library passages a reply was given, numbered as they were in the prompt. Each one
+ * opens in its document.
+ */
+const KnowledgeSources: React.FC<KnowledgeSourcesProps> = ({ references }) => {
+  const [openReference, setOpenReference] = useState<KnowledgeReference | null>(null);
+
+  return (
+    <div className="mt-4 pt-3 border-t border-white/10 text-xs">
+      <div className="flex items-center gap-1.5 mb-2 text-gray-400 font-medium">
+        <Library className="w-3.5 h-3.5" />
+        From your library
+      </div>
+      <ol className="space-y-1">
+        {references.map((reference, i) => (
+          <li key={reference.chunkId}>
+            <button
+              onClick={() => setOpenReference(reference)}
+              className="w-full flex items-baseline gap-2 text-left rounded hover:bg-white/5 transition-colors"
+              title="Open the passage"
+            >
+              <span className="w-5 shrink-0 text-right font-mono text-gray-500">{i + 1}.</span>
+              <span className="shrink-0 max-w-[40%] truncate text-primary/90">{reference.documentName}</span>
+              <span className="truncate text-gray-500">{reference.text.trim().replace(/\s+/g, ' ')}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+      {openReference && <PassageViewer reference={openReference} onClose={() => setOpenReference(null)} />}
+    </div>
+  );
+};
+
+export default KnowledgeSources;
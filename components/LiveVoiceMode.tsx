@@ -1,24 +1,54 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { X, Mic, MicOff, AlertCircle } from 'lucide-react';
-import { connectToLiveSession, createPcmBlob, base64ToArrayBuffer } from '../services/geminiService';
-import { LiveServerMessage } from '@google/genai';
+import { createPcmBlob, base64ToArrayBuffer, decodePcm16 } from '../services/pcmAudio';
+import { AudioCapture, startAudioCapture } from '../services/audioCapture';
+import { getProviderFor } from '../services/providers';
+import { AppSettings, ChatMessage, LiveSession, LiveSessionConfig, LiveSpeaker, LiveTranscriptEntry, TokenUsage } from '../types';
+import { LIVE_LANGUAGES, LIVE_SYSTEM_INSTRUCTION } from '../constants';
 
 interface LiveVoiceModeProps {
   isOpen: boolean;
   onClose: () => void;
+  settings: AppSettings;
+  history: ChatMessage[]; // Visible thread, shared with the call when enabled in settings
+  onTranscript: (entries: LiveTranscriptEntry[]) => void; // Called once when the call ends
+  onUsage?: (usage: TokenUsage) => void;
 }
 
-const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
+// Number of caption lines kept on screen during a call
+const VISIBLE_CAPTIONS = 4;
+
+/**
+ * Resolves the voice settings into a session config. An inherited chat persona is kept as
+ * written, with a note that the reply will be spoken rather than rendered as Markdown.
+ */
+const buildSessionConfig = (settings: AppSettings, history: ChatMessage[]): LiveSessionConfig => {
+  const persona = settings.liveInheritPersona && settings.systemInstruction.trim()
+    ? `${settings.systemInstruction}\n\nYou are now talking with the user by voice. Keep replies short and conversational, and don't use Markdown.`
+    : LIVE_SYSTEM_INSTRUCTION;
+  const language = LIVE_LANGUAGES.find(l => l.code && l.code === settings.liveLanguage);
+
+  return {
+    model: settings.liveModel,
+    voiceName: settings.liveVoice,
+    languageCode: settings.liveLanguage,
+    systemInstruction: language ? `${persona}\n\nAlways speak ${language.label}.` : persona,
+    history: settings.liveIncludeChatHistory ? history : [],
+  };
+};
+
+const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose, settings, history, onTranscript, onUsage }) => {
   const [status, setStatus] = useState<'connecting' | 'connected' | 'error' | 'disconnected'>('connecting');
   const [isMuted, setIsMuted] = useState(false);
+  // Read when the microphone starts, as mute can be pressed while its permission prompt is open
+  const isMutedRef = useRef(false);
   const [volume, setVolume] = useState(0);
+  const [transcript, setTranscript] = useState<LiveTranscriptEntry[]>([]);
+  const transcriptRef = useRef<LiveTranscriptEntry[]>([]);
 
   // Audio Contexts & Nodes
-  const inputContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const outputContextRef = useRef<AudioContext | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null);
   
   // Audio Queue Management
@@ -26,7 +56,7 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
   const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   
   // Session Management
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -49,31 +79,52 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
     });
     activeSourcesRef.current.clear();
 
-    // Close contexts
-    if (inputContextRef.current) inputContextRef.current.close();
+    // Release the microphone and close the output context
+    captureRef.current?.stop();
     if (outputContextRef.current) outputContextRef.current.close();
-    
-    // Stop tracks
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-    }
 
-    inputContextRef.current = null;
+    captureRef.current = null;
     outputContextRef.current = null;
     setStatus('disconnected');
     setVolume(0);
   };
 
+  const updateTranscript = (entries: LiveTranscriptEntry[]) => {
+    transcriptRef.current = entries;
+    setTranscript(entries);
+  };
+
+  // Captions arrive in fragments; extend the open entry for the speaker or start a new one
+  const handleTranscript = (speaker: LiveSpeaker, text: string) => {
+    const entries = transcriptRef.current;
+    const last = entries[entries.length - 1];
+    if (last && last.speaker === speaker && !last.isFinal) {
+      updateTranscript([...entries.slice(0, -1), { ...last, text: last.text + text }]);
+    } else {
+      updateTranscript([...entries, { speaker, text, isFinal: false, timestamp: Date.now() }]);
+    }
+  };
+
+  const handleTurnComplete = () => {
+    updateTranscript(transcriptRef.current.map(entry => entry.isFinal ? entry : { ...entry, isFinal: true }));
+  };
+
+  const handleEndCall = () => {
+    const entries = transcriptRef.current.filter(entry => entry.text.trim());
+    if (entries.length > 0) onTranscript(entries);
+    updateTranscript([]);
+    onClose();
+  };
+
   const startSession = async () => {
     setStatus('connecting');
     nextStartTimeRef.current = 0;
+    updateTranscript([]);
+    setIsMuted(false);
+    isMutedRef.current = false;
 
     try {
-      // 1. Initialize Audio Contexts
-      // Input: 16kHz required by Gemini
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      inputContextRef.current = inputCtx;
-
+      // 1. Initialize Audio Output
       // Output: 24kHz required by Gemini
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       outputContextRef.current = outputCtx;
@@ -81,97 +132,62 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
       outNode.connect(outputCtx.destination);
       outputNodeRef.current = outNode;
 
-      // 2. Get User Media
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      // 3. Connect to Live API
-      const sessionPromise = connectToLiveSession({
-        onOpen: () => {
-          setStatus('connected');
-          setupAudioInput(inputCtx, stream, sessionPromise);
+      // 2. Connect to Live API
+      const provider = getProviderFor(settings, 'connectLive');
+      const sessionPromise = provider.connectLive({
+        onOpen: () => setStatus('connected'),
+        onAudio: (base64Audio) => playAudioChunk(base64Audio, outputCtx, outNode),
+        onTranscript: handleTranscript,
+        onTurnComplete: handleTurnComplete,
+        onUsage,
+        onInterrupted: () => {
+          handleInterruption();
+          handleTurnComplete();
         },
-        onMessage: (msg) => handleServerMessage(msg, outputCtx, outNode),
         onClose: () => setStatus('disconnected'),
         onError: (e) => {
           console.error("Live API Error", e);
           setStatus('error');
         }
-      });
+      }, buildSessionConfig(settings, history));
       sessionPromiseRef.current = sessionPromise;
 
+      // 3. Stream the microphone once connected, so a failed connection ends in the error state
+      // rather than in a rejection for every captured chunk
+      const session = await sessionPromise;
+      if (sessionPromiseRef.current !== sessionPromise) return; // The call ended while connecting
+
+      const capture = await startAudioCapture({
+        onAudio: (pcm) => session.sendAudio(createPcmBlob(pcm)),
+        onLevel: setVolume,
+        onSpeechEnd: () => session.endAudio?.(),
+      });
+      if (sessionPromiseRef.current !== sessionPromise) {
+        // The call ended while the microphone permission prompt was open
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
+      capture.setMuted(isMutedRef.current);
+
     } catch (err) {
       console.error("Failed to start live session", err);
       setStatus('error');
     }
   };
 
-  const setupAudioInput = (ctx: AudioContext, stream: MediaStream, sessionPromise: Promise<any>) => {
-    const source = ctx.createMediaStreamSource(stream);
-    sourceRef.current = source;
-
-    // Use ScriptProcessor for raw PCM access (Standard for Gemini Live API demos)
-    // Buffer size 4096 gives a good balance of latency and stability
-    const processor = ctx.createScriptProcessor(4096, 1, 1);
-    processorRef.current = processor;
-
-    processor.onaudioprocess = (e) => {
-      if (isMuted) return;
-
-      const inputData = e.inputBuffer.getChannelData(0);
-      
-      // Calculate volume for visualizer
-      let sum = 0;
-      for (let i = 0; i < inputData.length; i++) {
-        sum += inputData[i] * inputData[i];
-      }
-      const rms = Math.sqrt(sum / inputData.length);
-      setVolume(Math.min(rms * 5, 1)); // Scale up for visual effect
-
-      // Create PCM Blob and Send
-      const pcmData = createPcmBlob(inputData);
-      
-      sessionPromise.then(session => {
-        session.sendRealtimeInput({ media: pcmData });
-      });
-    };
-
-    source.connect(processor);
-    processor.connect(ctx.destination);
-  };
-
-  const handleServerMessage = async (message: LiveServerMessage, ctx: AudioContext, outNode: GainNode) => {
-    const serverContent = message.serverContent;
-    
-    // Handle Audio
-    if (serverContent?.modelTurn?.parts?.[0]?.inlineData) {
-      const base64Audio = serverContent.modelTurn.parts[0].inlineData.data;
-      if (base64Audio) {
-        playAudioChunk(base64Audio, ctx, outNode);
-      }
-    }
-
-    // Handle Interruption
-    if (serverContent?.interrupted) {
-       // Stop all currently playing sources
-       activeSourcesRef.current.forEach(source => {
-         try { source.stop(); } catch(e) {}
-       });
-       activeSourcesRef.current.clear();
-       nextStartTimeRef.current = 0;
-    }
+  const handleInterruption = () => {
+    // Stop all currently playing sources
+    activeSourcesRef.current.forEach(source => {
+      try { source.stop(); } catch(e) {}
+    });
+    activeSourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
   };
 
   const playAudioChunk = async (base64Audio: string, ctx: AudioContext, outNode: GainNode) => {
     try {
-      const arrayBuffer = base64ToArrayBuffer(base64Audio);
-      
-      // Create a temporary buffer for decoding PCM data manually would be best
-      // But standard decodeAudioData often fails on raw PCM snippets without headers.
-      // However, the Service `decodeAudioData` is what we need. 
-      // Let's implement the specific decoding logic required for raw PCM 24kHz.
-      
-      const audioBuffer = await decodeRawPcm(arrayBuffer, ctx);
+      const audioBuffer = decodePcm16(base64ToArrayBuffer(base64Audio), ctx);
 
       const source = ctx.createBufferSource();
       source.buffer = audioBuffer;
@@ -198,21 +214,12 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
     }
   };
 
-  const decodeRawPcm = (arrayBuffer: ArrayBuffer, ctx: AudioContext): AudioBuffer => {
-    const dataInt16 = new Int16Array(arrayBuffer);
-    const frameCount = dataInt16.length; 
-    // Gemini Output is Mono (1 channel)
-    const buffer = ctx.createBuffer(1, frameCount, 24000);
-    const channelData = buffer.getChannelData(0);
-    
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i] / 32768.0;
-    }
-    
-    return buffer;
-  }
-
-  const toggleMute = () => setIsMuted(!isMuted);
+  const toggleMute = () => {
+    const muted = !isMutedRef.current;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    captureRef.current?.setMuted(muted);
+  };
 
   if (!isOpen) return null;
 
@@ -226,7 +233,7 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
             <span className="text-white/80 font-mono text-sm uppercase tracking-widest">Live Voice</span>
          </div>
          <button 
-           onClick={onClose}
+           onClick={handleEndCall}
            className="p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors"
          >
            <X className="w-6 h-6" />
@@ -288,6 +295,23 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
         </p>
       </div>
 
+      {/* Live Captions */}
+      {transcript.length > 0 && (
+        <div className="w-full max-w-2xl px-6 mb-10 space-y-2">
+          {transcript.slice(-VISIBLE_CAPTIONS).map(entry => (
+            <p
+              key={`${entry.speaker}-${entry.timestamp}`}
+              className={`text-center text-sm leading-relaxed ${entry.speaker === 'user' ? 'text-white/60' : 'text-white'} ${entry.isFinal ? '' : 'italic'}`}
+            >
+              <span className="font-mono text-xs uppercase tracking-wider text-white/40 mr-2">
+                {entry.speaker === 'user' ? 'You' : 'Nova'}
+              </span>
+              {entry.text}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Controls */}
       <div className="flex items-center gap-6">
         <button 
@@ -298,7 +322,7 @@ const LiveVoiceMode: React.FC<LiveVoiceModeProps> = ({ isOpen, onClose }) => {
         </button>
         
         <button 
-          onClick={onClose}
+          onClick={handleEndCall}
           className="px-8 py-4 bg-red-500 hover:bg-red-600 text-white font-medium rounded-full transition-colors shadow-lg shadow-red-500/25"
         >
           End Call
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { renderMermaid } from '../services/markdown';
+import CodeBlock from './CodeBlock';
+
+interface MermaidDiagramProps {
+  source: string;
+}
+
+/**
+ * A ```mermaid fence drawn as a diagram. When Mermaid can't render it, the source is
+ * shown as a code block instead, with the reason.
+ */
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ source }) => {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSvg(null);
+    setError(null);
+    renderMermaid(source)
+      .then(result => { if (!cancelled) setSvg(result); })
+      .catch(err => { if (!cancelled) setError(err?.message || 'The diagram could not be rendered'); });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  if (error) {
+    return (
+      <div className="not-prose my-4">
+        <p className="flex items-center gap-1.5 text-xs text-amber-400/80">
+          <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate" title={error}>Diagram failed to render: {error}</span>
+        </p>
+        <CodeBlock code={source} language="mermaid" />
+      </div>
+    );
+  }
+
+  if (svg === null) {
+    return (
+      <div className="not-prose my-4 flex items-center gap-2 text-xs text-gray-500">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        Rendering diagram…
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="not-prose my-4 p-4 rounded-lg border border-white/10 bg-black/30 overflow-x-auto [&_svg]:max-w-full [&_svg]:h-auto [&_svg]:mx-auto"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
+
+export default MermaidDiagram;
@@ -0,0 +1,152 @@
+import React, { useRef, useState } from 'react';
+import { UserCircle, Save, Trash2, Upload, Download, RotateCcw } from 'lucide-react';
+import { AppSettings, SettingsPreset } from '../types';
+import { exportPresets, matchesPreset, mergePresets, parsePresetExport, toPresetSettings } from '../services/presets';
+import { downloadBlob } from '../services/exportService';
+
+interface PresetPickerProps {
+  settings: AppSettings;
+  presets: SettingsPreset[];
+  presetId?: string; // Persona of the current conversation
+  onApplyPreset: (preset: SettingsPreset | null) => void;
+  onPresetsChange: (presets: SettingsPreset[]) => void;
+}
+
+/**
+ * Picks the current conversation's persona, and saves, updates, deletes, imports and
+ * exports presets.
+ */
+const PresetPicker: React.FC<PresetPickerProps> = ({ settings, presets, presetId, onApplyPreset, onPresetsChange }) => {
+  const [newName, setNewName] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activePreset = presets.find(p => p.id === presetId);
+  const isModified = activePreset ? !matchesPreset(settings, activePreset) : false;
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onApplyPreset(presets.find(p => p.id === e.target.value) ?? null);
+  };
+
+  const saveNewPreset = () => {
+    const name = newName?.trim();
+    if (!name) return;
+    const preset: SettingsPreset = { id: Date.now().toString(), name, settings: toPresetSettings(settings) };
+    onPresetsChange([...presets, preset]);
+    onApplyPreset(preset);
+    setNewName(null);
+  };
+
+  // Stores the current settings in the active preset
+  const updatePreset = () => {
+    if (!activePreset) return;
+    onPresetsChange(presets.map(p => p.id === activePreset.id ? { ...p, settings: toPresetSettings(settings) } : p));
+  };
+
+  const deletePreset = () => {
+    if (!activePreset || !window.confirm(`Delete the preset "${activePreset.name}"?`)) return;
+    onPresetsChange(presets.filter(p => p.id !== activePreset.id));
+    onApplyPreset(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onPresetsChange(mergePresets(presets, parsePresetExport(await file.text())));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(`Could not import presets: ${err.message}`);
+    }
+  };
+
+  return (
+    <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+      <label className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+        <UserCircle className="w-4 h-4 text-primary" />
+        Persona
+      </label>
+
+      <select
+        value={activePreset?.id ?? ''}
+        onChange={handleSelect}
+        className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+      >
+        <option value="">Custom</option>
+        {presets.map(p => (
+          <option key={p.id} value={p.id}>{p.name}</option>
+        ))}
+      </select>
+
+      {isModified && (
+        <div className="flex items-center gap-2 mt-2 text-xs text-amber-300/80">
+          <span className="flex-1">Changed since applied</span>
+          <button onClick={updatePreset} className="hover:text-white transition-colors" title="Save these settings to the preset">
+            <Save className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => onApplyPreset(activePreset!)} className="hover:text-white transition-colors" title="Restore the preset's settings">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      {newName !== null ? (
+        <div className="flex gap-2 mt-3">
+          <input
+            autoFocus
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveNewPreset();
+              if (e.key === 'Escape') setNewName(null);
+            }}
+            placeholder="Preset name"
+            className="flex-1 min-w-0 bg-surface border border-white/10 rounded-lg px-2.5 py-1.5 text-sm text-white focus:border-primary outline-none"
+          />
+          <button
+            onClick={saveNewPreset}
+            disabled={!newName.trim()}
+            className="px-3 py-1.5 rounded-lg text-xs bg-primary text-white hover:bg-primary/90 transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1 mt-3">
+          <button
+            onClick={() => setNewName('')}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+            title="Save the current model, thinking, voice and system instruction as a preset"
+          >
+            <Save className="w-3.5 h-3.5" />
+            Save as preset
+          </button>
+          <div className="ml-auto flex items-center">
+            {activePreset && (
+              <button onClick={deletePreset} className="p-1.5 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5 transition-colors" title="Delete preset">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button onClick={() => fileInputRef.current?.click()} className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors" title="Import presets">
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => downloadBlob(exportPresets(presets), 'nova-presets.json')}
+              disabled={presets.length === 0}
+              className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+              title="Export presets"
+            >
+              <Download className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      {importError && <p className="text-xs text-red-400 mt-2">{importError}</p>}
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Brain, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ReasoningPanelProps {
+  thoughts: string;
+  thinkingTokens?: number;
+  isLive: boolean; // Thoughts are still streaming and no answer has arrived yet
+}
+
+const ReasoningPanel: React.FC<ReasoningPanelProps> = ({ thoughts, thinkingTokens, isLive }) => {
+  // null = follow the live state; once the user toggles, their choice wins
+  const [userExpanded, setUserExpanded] = useState<boolean | null>(null);
+  const isExpanded = userExpanded ?? isLive;
+
+  return (
+    <div className="mb-4 rounded-lg border border-secondary/20 bg-secondary/5 text-sm overflow-hidden">
+      <button
+        onClick={() => setUserExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-white/5 transition-colors"
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Brain className={`w-3.5 h-3.5 text-secondary ${isLive ? 'animate-pulse' : ''}`} />
+        <span className="font-medium">{isLive ? 'Reasoning...' : 'Reasoning'}</span>
+        {thinkingTokens ? (
+          <span className="ml-auto text-xs text-gray-500 font-mono">{thinkingTokens.toLocaleString()} thinking tokens</span>
+        ) : null}
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-3 pt-1 border-t border-white/5 prose prose-invert prose-xs max-w-none text-gray-400">
+          <ReactMarkdown>{thoughts}</ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReasoningPanel;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Braces, Plus, Pencil, Trash2 } from 'lucide-react';
+import { SavedSchema } from '../types';
+import { parseSchema } from '../services/structuredOutput';
+
+interface SchemaPickerProps {
+  schemas: SavedSchema[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onSchemasChange: (schemas: SavedSchema[]) => void;
+}
+
+interface SchemaDraft {
+  id: string | null; // Null for a new schema
+  name: string;
+  text: string;
+}
+
+const NEW_SCHEMA_TEXT = JSON.stringify({
+  type: 'object',
+  properties: { title: { type: 'string' } },
+  required: ['title'],
+}, null, 2);
+
+/**
+ * Options row for structured mode: picks the schema replies must follow, and writes,
+ * edits and deletes saved schemas.
+ */
+const SchemaPicker: React.FC<SchemaPickerProps> = ({ schemas, selectedId, onSelect, onSchemasChange }) => {
+  const [draft, setDraft] = useState<SchemaDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = schemas.find(s => s.id === selectedId);
+
+  const openEditor = (schema?: SavedSchema) => {
+    setDraft(schema
+      ? { id: schema.id, name: schema.name, text: JSON.stringify(schema.schema, null, 2) }
+      : { id: null, name: '', text: NEW_SCHEMA_TEXT });
+    setError(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) {
+      setError("Give the schema a name.");
+      return;
+    }
+    try {
+      const schema = parseSchema(draft.text);
+      if (draft.id) {
+        onSchemasChange(schemas.map(s => s.id === draft.id ? { ...s, name, schema } : s));
+      } else {
+        const saved: SavedSchema = { id: Date.now().toString(), name, schema };
+        onSchemasChange([...schemas, saved]);
+        onSelect(saved.id);
+      }
+      setDraft(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const deleteSelected = () => {
+    if (!selected || !window.confirm(`Delete the schema "${selected.name}"?`)) return;
+    const remaining = schemas.filter(s => s.id !== selected.id);
+    onSchemasChange(remaining);
+    if (remaining.length > 0) onSelect(remaining[0].id);
+  };
+
+  const iconButton = 'p-1 rounded-md hover:text-white hover:bg-white/10 transition-colors';
+
+  return (
+    <div className="mb-2 px-2 text-xs text-gray-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-1.5 text-primary font-medium">
+          <Braces className="w-3.5 h-3.5" />
+          Structured
+        </span>
+        <select
+          value={selected?.id ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          className="bg-surface border border-white/10 rounded-lg px-2 py-1 text-white focus:border-primary outline-none"
+          title="Schema the reply must follow"
+        >
+          {!selected && <option value="">Choose a schema</option>}
+          {schemas.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <div className="flex items-center">
+          <button onClick={() => openEditor()} className={iconButton} title="New schema">
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+          {selected && (
+            <>
+              <button onClick={() => openEditor(selected)} className={iconButton} title="Edit schema">
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={deleteSelected} className={`${iconButton} hover:text-red-400`} title="Delete schema">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </>
+          )}
+        </div>
+        <span className="text-gray-500">Replies are JSON following the schema</span>
+      </div>
+
+      {draft && (
+        <div className="mt-2 p-3 space-y-2 bg-surface border border-white/10 rounded-xl">
+          <input
+            autoFocus
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Schema name"
+            className="w-full bg-darker border border-white/10 rounded-lg px-2.5 py-1.5 text-sm text-white focus:border-primary outline-none"
+          />
+          <textarea
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            spellCheck={false}
+            rows={8}
+            className="w-full bg-darker border border-white/10 rounded-lg p-2.5 font-mono text-xs text-white focus:border-primary outline-none resize-y"
+          />
+          {error && <p className="text-red-400">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveDraft}
+              className="px-3 py-1.5 rounded-lg bg-primary text-white hover:bg-primary/90 transition-colors"
+            >
+              Save schema
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SchemaPicker;
@@ -1,20 +1,104 @@
-import React from 'react';
-import { Settings, Cpu, Image as ImageIcon, Volume2, X } from 'lucide-react';
-import { AppSettings, ModelType } from '../types';
-import { MAX_THINKING_BUDGET_FLASH, DEFAULT_THINKING_BUDGET } from '../constants';
+import React, { useEffect, useState } from 'react';
+import { Settings, Cpu, Image as ImageIcon, Volume2, X, Server, RefreshCw, Wrench, Headphones, Play, Loader2, Gauge, Timer, SlidersHorizontal, ChevronDown, Globe } from 'lucide-react';
+import { AppSettings, ContextStrategy, ModelCapability, ModelInfo, ProviderId, SettingsPreset } from '../types';
+import { MAX_THINKING_BUDGET_FLASH, DEFAULT_THINKING_BUDGET, GEMINI_MODELS, LIVE_LANGUAGES, LIVE_VOICES, VOICE_PREVIEW_TEXT, MIN_TTS_SPEED, MAX_TTS_SPEED, CONTEXT_STRATEGIES, DEFAULT_CONTEXT_WINDOW, MAX_REQUEST_RETRIES, MAX_STOP_SEQUENCES } from '../constants';
+import { PROVIDERS, getProvider, getProviderFor } from '../services/providers';
+import { playSpeech } from '../services/pcmAudio';
+import { recordUsage } from '../services/usage';
+import { TOOLS } from '../services/tools';
+import PresetPicker from './PresetPicker';
+import { getSamplingLimits } from '../services/sampling';
 
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
   onSettingsChange: (newSettings: AppSettings) => void;
+  presets: SettingsPreset[];
+  presetId?: string;
+  onApplyPreset: (preset: SettingsPreset | null) => void;
+  onPresetsChange: (presets: SettingsPreset[]) => void;
 }
 
-const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onSettingsChange }) => {
+type SamplingSetting = 'temperature' | 'topP' | 'topK' | 'maxOutputTokens' | 'seed';
+
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  [ModelCapability.CHAT]: 'Chat',
+  [ModelCapability.VISION]: 'Vision',
+  [ModelCapability.THINKING]: 'Thinking',
+  [ModelCapability.IMAGE_GEN]: 'Images',
+  [ModelCapability.TTS]: 'Speech',
+  [ModelCapability.LIVE_AUDIO]: 'Live audio',
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  onSettingsChange,
+  presets,
+  presetId,
+  onApplyPreset,
+  onPresetsChange
+}) => {
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [previewing, setPreviewing] = useState<'tts' | 'live' | null>(null);
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+
+  // Fetch the model list whenever the provider or its endpoint changes
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    setIsLoadingModels(true);
+    setModelsError(null);
+    getProvider(settings.provider).listModels(settings)
+      .then(list => {
+        if (cancelled) return;
+        setModels(list);
+        // Keep the selection valid for the new provider
+        const chatModels = list.filter(m => m.capabilities.includes(ModelCapability.CHAT));
+        if (chatModels.length > 0 && !chatModels.some(m => m.id === settings.model)) {
+          onSettingsChange({ ...settings, model: chatModels[0].id });
+        }
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setModels([]);
+        setModelsError(err.message || "Could not load models");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingModels(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [isOpen, settings.provider, settings.openAIBaseUrl, settings.openAIApiKey, reloadToken]);
+
   if (!isOpen) return null;
 
+  const chatModels = models.filter(m => m.capabilities.includes(ModelCapability.CHAT));
+  // Voice calls always run on Gemini, whichever provider serves chat
+  const liveModels = GEMINI_MODELS.filter(m => m.capabilities.includes(ModelCapability.LIVE_AUDIO));
+  const selectedModel = models.find(m => m.id === settings.model);
+  const samplingLimits = getSamplingLimits(settings);
+  const samplingFields: { key: SamplingSetting, label: string, min: number, max?: number, step: number }[] = [
+    { key: 'temperature', label: `Temperature (0–${samplingLimits.maxTemperature})`, min: 0, max: samplingLimits.maxTemperature, step: 0.05 },
+    { key: 'topP', label: 'Top-p (0–1)', min: 0, max: 1, step: 0.05 },
+    { key: 'topK', label: `Top-k (1–${samplingLimits.maxTopK})`, min: 1, max: samplingLimits.maxTopK, step: 1 },
+    { key: 'maxOutputTokens', label: 'Max output tokens', min: 1, max: samplingLimits.maxOutputTokens, step: 256 },
+    { key: 'seed', label: 'Seed', min: 0, step: 1 },
+  ];
+
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const provider = getProvider(e.target.value as ProviderId);
+    onSettingsChange({ ...settings, provider: provider.id, model: provider.defaultModel });
+  };
+
   const handleModelChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    onSettingsChange({ ...settings, model: e.target.value as ModelType });
+    onSettingsChange({ ...settings, model: e.target.value });
   };
 
   const toggleThinking = () => {
@@ -29,10 +113,75 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings
     onSettingsChange({ ...settings, thinkingBudget: parseInt(e.target.value) });
   };
 
+  // Empty or zero falls back to the model's full window
+  const handleContextBudgetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { [settings.model]: _previous, ...contextBudgets } = settings.contextBudgets;
+    const value = parseInt(e.target.value, 10);
+    const maxBudget = selectedModel?.contextWindow;
+    if (value > 0) contextBudgets[settings.model] = maxBudget ? Math.min(value, maxBudget) : value;
+    onSettingsChange({ ...settings, contextBudgets });
+  };
+
+  // Clearing a field unsets the parameter, so the model's default applies
+  const handleSamplingChange = (key: SamplingSetting, value: string) => {
+    const parsed = parseFloat(value);
+    onSettingsChange({ ...settings, [key]: value === '' || Number.isNaN(parsed) ? undefined : parsed });
+  };
+
+  const resetSampling = () => {
+    onSettingsChange({
+      ...settings,
+      temperature: undefined,
+      topP: undefined,
+      topK: undefined,
+      maxOutputTokens: undefined,
+      seed: undefined,
+      stopSequences: [],
+      candidateCount: 1,
+    });
+  };
+
   const toggleTTS = () => {
     onSettingsChange({ ...settings, enableTTS: !settings.enableTTS });
   };
 
+  const toggleLiveHistory = () => {
+    onSettingsChange({ ...settings, liveIncludeChatHistory: !settings.liveIncludeChatHistory });
+  };
+
+  const toggleLivePersona = () => {
+    onSettingsChange({ ...settings, liveInheritPersona: !settings.liveInheritPersona });
+  };
+
+  const previewVoice = (target: 'tts' | 'live') => {
+    const voice = target === 'tts' ? settings.ttsVoice : settings.liveVoice;
+    // Read-aloud previews include the style and speed; calls don't use them
+    const style = target === 'tts' ? settings.ttsStyle.trim() || undefined : undefined;
+    const speed = target === 'tts' ? settings.ttsSpeed : 1;
+    const provider = getProviderFor(settings, 'generateSpeech');
+
+    setPreviewing(target);
+    playSpeech(
+      `voice-preview:${voice}:${style ?? ''}`,
+      [VOICE_PREVIEW_TEXT],
+      text => provider.generateSpeech(text, {
+        voiceName: voice,
+        style,
+        onUsage: usage => recordUsage({ ...usage, kind: 'speech' }).catch(err => console.error("Failed to record usage", err)),
+      }),
+      speed
+    ).done
+      .catch(err => console.error("Voice preview failed", err))
+      .finally(() => setPreviewing(null));
+  };
+
+  const toggleTool = (name: string) => {
+    const enabledTools = settings.enabledTools.includes(name)
+      ? settings.enabledTools.filter(t => t !== name)
+      : [...settings.enabledTools, name];
+    onSettingsChange({ ...settings, enabledTools });
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex justify-end bg-black/50 backdrop-blur-sm" onClick={onClose}>
       <div 
@@ -48,78 +197,495 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings
           </button>
         </div>
 
+        <PresetPicker
+          settings={settings}
+          presets={presets}
+          presetId={presetId}
+          onApplyPreset={onApplyPreset}
+          onPresetsChange={onPresetsChange}
+        />
+
+        {/* Provider Selection */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-400 mb-2">Provider</label>
+          <div className="relative">
+            <select 
+              value={settings.provider}
+              onChange={handleProviderChange}
+              className="w-full bg-darker border border-white/10 rounded-lg p-3 text-white appearance-none focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all"
+            >
+              {PROVIDERS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            <div className="absolute right-3 top-3.5 pointer-events-none text-gray-500">
+              <Server className="w-4 h-4" />
+            </div>
+          </div>
+
+          {settings.provider === ProviderId.OPENAI_COMPATIBLE && (
+            <div className="space-y-3 mt-3">
+              <input
+                value={settings.openAIBaseUrl}
+                onChange={(e) => onSettingsChange({ ...settings, openAIBaseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="w-full bg-darker border border-white/10 rounded-lg p-3 text-sm text-white font-mono focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+              />
+              <input
+                type="password"
+                value={settings.openAIApiKey}
+                onChange={(e) => onSettingsChange({ ...settings, openAIApiKey: e.target.value })}
+                placeholder="API key (optional)"
+                className="w-full bg-darker border border-white/10 rounded-lg p-3 text-sm text-white focus:border-primary focus:ring-1 focus:ring-primary outline-none"
+              />
+              <p className="text-xs text-gray-500">
+                Images, speech and voice chat still use Gemini.
+              </p>
+            </div>
+          )}
+        </div>
+
         {/* Model Selection */}
         <div className="mb-8">
-          <label className="block text-sm font-medium text-gray-400 mb-2">Core Model</label>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-400">Core Model</label>
+            <button 
+              onClick={() => setReloadToken(t => t + 1)}
+              className="text-gray-500 hover:text-white transition-colors"
+              title="Refresh models"
+            >
+              <RefreshCw className={`w-3.5 h-3.5 ${isLoadingModels ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
           <div className="relative">
             <select 
               value={settings.model}
               onChange={handleModelChange}
-              className="w-full bg-darker border border-white/10 rounded-lg p-3 text-white appearance-none focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all"
+              disabled={chatModels.length === 0}
+              className="w-full bg-darker border border-white/10 rounded-lg p-3 text-white appearance-none focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all disabled:opacity-50"
             >
-              <option value={ModelType.FLASH}>Gemini 2.5 Flash (Fast)</option>
-              <option value={ModelType.PRO}>Gemini 3 Pro (Smart)</option>
+              {chatModels.length === 0 && (
+                <option value={settings.model}>{isLoadingModels ? 'Loading models...' : 'No models available'}</option>
+              )}
+              {chatModels.map(m => (
+                <option key={m.id} value={m.id}>{m.label}</option>
+              ))}
             </select>
             <div className="absolute right-3 top-3.5 pointer-events-none text-gray-500">
               <Cpu className="w-4 h-4" />
             </div>
           </div>
+          {modelsError ? (
+            <p className="text-xs text-red-400 mt-2">{modelsError}</p>
+          ) : selectedModel ? (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {selectedModel.capabilities.map(c => (
+                <span key={c} className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] uppercase tracking-wider text-gray-400">
+                  {CAPABILITY_LABELS[c]}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 mt-2">
+              Select the brain that powers the assistant.
+            </p>
+          )}
+        </div>
+
+        {/* Thinking Mode */}
+        {selectedModel?.capabilities.includes(ModelCapability.THINKING) && (
+          <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+            <div className="flex justify-between items-center mb-4">
+              <label className="text-sm font-medium text-white flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full bg-secondary animate-pulse"></span>
+                Thinking Mode
+              </label>
+              <button 
+                onClick={toggleThinking}
+                className={`w-11 h-6 rounded-full transition-colors relative ${settings.enableThinking ? 'bg-secondary' : 'bg-gray-700'}`}
+              >
+                <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.enableThinking ? 'translate-x-5' : ''}`} />
+              </button>
+            </div>
+          
+            {settings.enableThinking && (
+              <div className="space-y-3 animate-fade-in">
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span>Budget</span>
+                  <span>{settings.thinkingBudget} tokens</span>
+                </div>
+                <input 
+                  type="range" 
+                  min="1024" 
+                  max={MAX_THINKING_BUDGET_FLASH} 
+                  step="1024"
+                  value={settings.thinkingBudget}
+                  onChange={handleBudgetChange}
+                  className="w-full accent-secondary h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                />
+                <p className="text-xs text-gray-500">
+                  Higher budget allows for deeper reasoning on complex tasks.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Context Window */}
+        <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+          <label className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+            <Gauge className="w-4 h-4 text-primary" />
+            Context Window
+          </label>
+
+          <div className="space-y-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Token budget for this model</label>
+              <input
+                type="number"
+                min={0}
+                step={1024}
+                value={settings.contextBudgets[settings.model] ?? ''}
+                onChange={handleContextBudgetChange}
+                placeholder={`${selectedModel?.contextWindow ?? DEFAULT_CONTEXT_WINDOW} (full window)`}
+                className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white font-mono focus:border-primary outline-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">When a chat gets too long</label>
+              <select
+                value={settings.contextStrategy}
+                onChange={(e) => onSettingsChange({ ...settings, contextStrategy: e.target.value as ContextStrategy })}
+                className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+              >
+                {CONTEXT_STRATEGIES.map(s => (
+                  <option key={s.value} value={s.value}>{s.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-2">
+                {CONTEXT_STRATEGIES.find(s => s.value === settings.contextStrategy)?.description}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Requests */}
+        <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+          <label className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+            <Timer className="w-4 h-4 text-primary" />
+            Requests
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Timeout (seconds)</label>
+              <input
+                type="number"
+                min={0}
+                step={10}
+                value={settings.requestTimeout}
+                onChange={(e) => onSettingsChange({ ...settings, requestTimeout: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white font-mono focus:border-primary outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Automatic retries</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_REQUEST_RETRIES}
+                value={settings.maxRetries}
+                onChange={(e) => onSettingsChange({
+                  ...settings,
+                  maxRetries: Math.min(MAX_REQUEST_RETRIES, Math.max(0, parseInt(e.target.value, 10) || 0)),
+                })}
+                className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white font-mono focus:border-primary outline-none"
+              />
+            </div>
+          </div>
           <p className="text-xs text-gray-500 mt-2">
-            Select the brain that powers the assistant.
+            A request fails after this long without a response; 0 waits indefinitely. Rate limits, network and server errors are retried with increasing delays.
           </p>
         </div>
 
-        {/* Thinking Mode */}
+        {/* Audio Settings */}
         <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
-          <div className="flex justify-between items-center mb-4">
+          <div className="flex justify-between items-center">
             <label className="text-sm font-medium text-white flex items-center gap-2">
-              <span className="w-2 h-2 rounded-full bg-secondary animate-pulse"></span>
-              Thinking Mode
+              <Volume2 className="w-4 h-4 text-primary" />
+              Auto-Read Responses
             </label>
             <button 
-              onClick={toggleThinking}
-              className={`w-11 h-6 rounded-full transition-colors relative ${settings.enableThinking ? 'bg-secondary' : 'bg-gray-700'}`}
+              onClick={toggleTTS}
+              className={`w-11 h-6 rounded-full transition-colors relative ${settings.enableTTS ? 'bg-primary' : 'bg-gray-700'}`}
             >
-              <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.enableThinking ? 'translate-x-5' : ''}`} />
+              <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.enableTTS ? 'translate-x-5' : ''}`} />
             </button>
           </div>
-          
-          {settings.enableThinking && (
-            <div className="space-y-3 animate-fade-in">
+
+          <div className="space-y-3 mt-4">
+            <div className="flex gap-2">
+              <select
+                value={settings.ttsVoice}
+                onChange={(e) => onSettingsChange({ ...settings, ttsVoice: e.target.value })}
+                className="flex-1 min-w-0 bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+              >
+                {LIVE_VOICES.map(v => (
+                  <option key={v.name} value={v.name}>{v.name} · {v.description}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => previewVoice('tts')}
+                disabled={previewing !== null}
+                className="px-3 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+                title="Preview voice"
+              >
+                {previewing === 'tts' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              </button>
+            </div>
+
+            <input
+              value={settings.ttsStyle}
+              onChange={(e) => onSettingsChange({ ...settings, ttsStyle: e.target.value })}
+              placeholder="Style, e.g. calm, slow"
+              className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+            />
+
+            <div className="space-y-2">
               <div className="flex justify-between text-xs text-gray-400">
-                <span>Budget</span>
-                <span>{settings.thinkingBudget} tokens</span>
+                <span>Speed</span>
+                <span>{settings.ttsSpeed.toFixed(1)}×</span>
               </div>
               <input 
                 type="range" 
-                min="1024" 
-                max={MAX_THINKING_BUDGET_FLASH} 
-                step="1024"
-                value={settings.thinkingBudget}
-                onChange={handleBudgetChange}
-                className="w-full accent-secondary h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                min={MIN_TTS_SPEED} 
+                max={MAX_TTS_SPEED} 
+                step="0.1"
+                value={settings.ttsSpeed}
+                onChange={(e) => onSettingsChange({ ...settings, ttsSpeed: parseFloat(e.target.value) })}
+                className="w-full accent-primary h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer"
               />
               <p className="text-xs text-gray-500">
-                Higher budget allows for deeper reasoning on complex tasks.
+                Speeds up or slows down the audio itself, so the voice also sounds higher or lower. For a natural pace, ask for it in the style instead.
               </p>
             </div>
-          )}
+
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Second voice for dialogues</label>
+              <select
+                value={settings.ttsDialogueVoice}
+                onChange={(e) => onSettingsChange({ ...settings, ttsDialogueVoice: e.target.value })}
+                className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+              >
+                {LIVE_VOICES.map(v => (
+                  <option key={v.name} value={v.name}>{v.name} · {v.description}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Replies written as a script between two named speakers can be read as a dialogue.
+              </p>
+            </div>
+          </div>
         </div>
 
-        {/* Audio Settings */}
+        {/* Voice Chat */}
         <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
-          <div className="flex justify-between items-center">
-            <label className="text-sm font-medium text-white flex items-center gap-2">
-              <Volume2 className="w-4 h-4 text-primary" />
-              Auto-Read Responses
-            </label>
+          <label className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+            <Headphones className="w-4 h-4 text-primary" />
+            Voice
+          </label>
+
+          <div className="space-y-3">
+            <select
+              value={settings.liveModel}
+              onChange={(e) => onSettingsChange({ ...settings, liveModel: e.target.value })}
+              className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+            >
+              {liveModels.map(m => (
+                <option key={m.id} value={m.id}>{m.label}</option>
+              ))}
+            </select>
+
+            <div className="flex gap-2">
+              <select
+                value={settings.liveVoice}
+                onChange={(e) => onSettingsChange({ ...settings, liveVoice: e.target.value })}
+                className="flex-1 min-w-0 bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+              >
+                {LIVE_VOICES.map(v => (
+                  <option key={v.name} value={v.name}>{v.name} · {v.description}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => previewVoice('live')}
+                disabled={previewing !== null}
+                className="px-3 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+                title="Preview voice"
+              >
+                {previewing === 'live' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              </button>
+            </div>
+
+            <select
+              value={settings.liveLanguage}
+              onChange={(e) => onSettingsChange({ ...settings, liveLanguage: e.target.value })}
+              className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white focus:border-primary outline-none"
+            >
+              {LIVE_LANGUAGES.map(l => (
+                <option key={l.code} value={l.code}>{l.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-between items-center mt-4">
+            <span className="text-sm text-gray-300">Use chat persona</span>
             <button 
-              onClick={toggleTTS}
-              className={`w-11 h-6 rounded-full transition-colors relative ${settings.enableTTS ? 'bg-primary' : 'bg-gray-700'}`}
+              onClick={toggleLivePersona}
+              className={`w-11 h-6 rounded-full transition-colors relative ${settings.liveInheritPersona ? 'bg-primary' : 'bg-gray-700'}`}
             >
-              <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.enableTTS ? 'translate-x-5' : ''}`} />
+              <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.liveInheritPersona ? 'translate-x-5' : ''}`} />
+            </button>
+          </div>
+          <div className="flex justify-between items-center mt-3">
+            <span className="text-sm text-gray-300">Share chat with calls</span>
+            <button 
+              onClick={toggleLiveHistory}
+              className={`w-11 h-6 rounded-full transition-colors relative ${settings.liveIncludeChatHistory ? 'bg-primary' : 'bg-gray-700'}`}
+            >
+              <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.liveIncludeChatHistory ? 'translate-x-5' : ''}`} />
             </button>
           </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Calls use the System Instruction below when the chat persona is on, and start with the current thread when sharing is on. Call transcripts are always added to the chat.
+          </p>
+        </div>
+
+        {/* Tools */}
+        <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+          <label className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+            <Wrench className="w-4 h-4 text-primary" />
+            Tools
+          </label>
+          <div className="space-y-3">
+            {TOOLS.map(tool => {
+              const isEnabled = settings.enabledTools.includes(tool.name);
+              return (
+                <div key={tool.name} className="flex justify-between items-center">
+                  <span className="text-sm text-gray-300">{tool.label}</span>
+                  <button 
+                    onClick={() => toggleTool(tool.name)}
+                    className={`w-11 h-6 rounded-full transition-colors relative ${isEnabled ? 'bg-primary' : 'bg-gray-700'}`}
+                  >
+                    <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${isEnabled ? 'translate-x-5' : ''}`} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Let the model call these local functions while answering.
+          </p>
+        </div>
+
+        {/* Grounding */}
+        <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+          <label className="text-sm font-medium text-white flex items-center gap-2 mb-4">
+            <Globe className="w-4 h-4 text-primary" />
+            Grounding
+          </label>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-300">Search the web</span>
+              <button 
+                onClick={() => onSettingsChange({ ...settings, enableSearchGrounding: !settings.enableSearchGrounding })}
+                className={`w-11 h-6 rounded-full transition-colors relative ${settings.enableSearchGrounding ? 'bg-primary' : 'bg-gray-700'}`}
+              >
+                <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.enableSearchGrounding ? 'translate-x-5' : ''}`} />
+              </button>
+            </div>
+            {settings.provider === ProviderId.GEMINI && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-300">Read linked pages</span>
+                <button 
+                  onClick={() => onSettingsChange({ ...settings, enableUrlContext: !settings.enableUrlContext })}
+                  className={`w-11 h-6 rounded-full transition-colors relative ${settings.enableUrlContext ? 'bg-primary' : 'bg-gray-700'}`}
+                >
+                  <span className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${settings.enableUrlContext ? 'translate-x-5' : ''}`} />
+                </button>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Grounded replies cite their sources. {settings.provider === ProviderId.GEMINI
+              ? 'Local tools are turned off while grounding is on.'
+              : 'Requires a server that supports web search.'}
+          </p>
+        </div>
+
+        {/* Advanced */}
+        <div className="mb-8 p-4 bg-darker rounded-xl border border-white/5">
+          <button
+            onClick={() => setIsAdvancedOpen(!isAdvancedOpen)}
+            className="w-full text-sm font-medium text-white flex items-center gap-2"
+          >
+            <SlidersHorizontal className="w-4 h-4 text-primary" />
+            Advanced
+            <ChevronDown className={`w-4 h-4 ml-auto text-gray-500 transition-transform ${isAdvancedOpen ? 'rotate-180' : ''}`} />
+          </button>
+
+          {isAdvancedOpen && (
+            <div className="space-y-3 mt-4 animate-fade-in">
+              <div className="grid grid-cols-2 gap-3">
+                {samplingFields.map(field => (
+                  <div key={field.key}>
+                    <label className="block text-xs text-gray-400 mb-1">{field.label}</label>
+                    <input
+                      type="number"
+                      min={field.min}
+                      max={field.max}
+                      step={field.step}
+                      value={settings[field.key] ?? ''}
+                      onChange={(e) => handleSamplingChange(field.key, e.target.value)}
+                      placeholder="Default"
+                      className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white font-mono focus:border-primary outline-none"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Candidates (1–{samplingLimits.maxCandidates})</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={samplingLimits.maxCandidates}
+                    value={settings.candidateCount}
+                    onChange={(e) => onSettingsChange({
+                      ...settings,
+                      candidateCount: Math.min(samplingLimits.maxCandidates, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                    })}
+                    className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white font-mono focus:border-primary outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Stop sequences (one per line, up to {MAX_STOP_SEQUENCES})</label>
+                <textarea
+                  value={settings.stopSequences.join('\n')}
+                  onChange={(e) => onSettingsChange({ ...settings, stopSequences: e.target.value.split('\n').slice(0, MAX_STOP_SEQUENCES) })}
+                  rows={2}
+                  className="w-full bg-surface border border-white/10 rounded-lg p-2.5 text-sm text-white font-mono focus:border-primary outline-none resize-none"
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-500">Empty fields use the model's default.</p>
+                <button onClick={resetSampling} className="text-xs text-gray-400 hover:text-white transition-colors">
+                  Reset
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* System Instruction */}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Globe, Link2, Search } from 'lucide-react';
+import { GroundingSource } from '../types';
+import { sourceAnchorId } from '../services/grounding';
+
+interface SourceListProps {
+  messageId: string;
+  sources: GroundingSource[];
+  searchQueries?: string[];
+}
+
+/**
+ * The pages a grounded reply drew on, numbered to match its citation markers, and the
+ * searches the model ran.
+ */
+const SourceList: React.FC<SourceListProps> = ({ messageId, sources, searchQueries }) => {
+  return (
+    <div className="mt-4 pt-3 border-t border-white/10 text-xs">
+      <div className="flex items-center gap-1.5 mb-2 text-gray-400 font-medium">
+        <Globe className="w-3.5 h-3.5" />
+        Sources
+      </div>
+      <ol className="space-y-1">
+        {sources.map((source, i) => (
+          <li key={i} id={sourceAnchorId(messageId, i)} className="flex items-center gap-2 rounded scroll-mt-24 target:bg-primary/10">
+            <span className="w-5 shrink-0 text-right font-mono text-gray-500">{i + 1}.</span>
+            {source.origin === 'url'
+              ? <Link2 className="w-3 h-3 shrink-0 text-gray-500" aria-label="Read from a URL in the prompt" />
+              : <Search className="w-3 h-3 shrink-0 text-gray-500" aria-label="Found by search" />}
+            <a
+              href={source.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate text-primary/90 hover:text-primary hover:underline"
+              title={source.uri}
+            >
+              {source.title}
+            </a>
+          </li>
+        ))}
+      </ol>
+      {searchQueries && searchQueries.length > 0 && (
+        <p className="mt-2 text-gray-500">
+          Searched for {searchQueries.map(q => `“${q}”`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SourceList;
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { Braces, ChevronRight, ChevronDown, Copy, Check, Download, AlertTriangle, CheckCircle2, Table, ListTree } from 'lucide-react';
+import { StructuredOutputInfo } from '../types';
+import { parseStructuredOutput, tableColumns, toCsv } from '../services/structuredOutput';
+import { downloadBlob, slugify } from '../services/exportService';
+
+interface StructuredOutputViewProps {
+  text: string;
+  structuredOutput: StructuredOutputInfo;
+}
+
+// Levels of the tree that start expanded
+const EXPANDED_DEPTH = 2;
+
+const formatPrimitive = (value: unknown): string => {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+};
+
+const primitiveClass = (value: unknown): string => {
+  if (typeof value === 'string') return 'text-emerald-300';
+  if (typeof value === 'number') return 'text-sky-300';
+  if (typeof value === 'boolean') return 'text-amber-300';
+  return 'text-gray-500';
+};
+
+interface JsonNodeProps {
+  name?: string | number;
+  value: unknown;
+  depth: number;
+}
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, depth }) => {
+  const [isOpen, setIsOpen] = useState(depth < EXPANDED_DEPTH);
+  const label = name === undefined ? null : <span className="text-gray-400">{name}:&nbsp;</span>;
+
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <div className="pl-4 break-words">
+        {label}<span className={primitiveClass(value)}>{formatPrimitive(value)}</span>
+      </div>
+    );
+  }
+
+  const entries: [string | number, unknown][] = Array.isArray(value)
+    ? value.map((item, i) => [i, item])
+    : Object.entries(value);
+  const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center hover:bg-white/5 rounded"
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5 text-gray-500" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-500" />}
+        {label}
+        <span className="text-gray-500">{summary}</span>
+      </button>
+      {isOpen && (
+        <div className="ml-1.5 border-l border-white/10">
+          {entries.map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const JsonTable: React.FC<{ rows: unknown[] }> = ({ rows }) => {
+  const columns = tableColumns(rows);
+  // Strings are shown without quotes here, and missing values as empty cells
+  const cell = (value: unknown) => {
+    if (value === undefined) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  };
+  const field = (row: unknown, column: string) => {
+    return typeof row === 'object' && row !== null ? (row as Record<string, unknown>)[column] : undefined;
+  };
+
+  return (
+    <div className="overflow-x-auto max-h-96">
+      <table className="w-full text-left">
+        <thead className="sticky top-0 bg-darker text-gray-400">
+          <tr>
+            <th className="px-3 py-2 font-medium text-gray-600">#</th>
+            {(columns.length > 0 ? columns : ['value']).map(column => (
+              <th key={column} className="px-3 py-2 font-medium">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i} className="border-t border-white/5">
+              <td className="px-3 py-1.5 text-gray-600">{i + 1}</td>
+              {columns.length > 0 ? columns.map(column => (
+                <td key={column} className="px-3 py-1.5 text-gray-200 max-w-xs truncate" title={cell(field(row, column))}>
+                  {cell(field(row, column))}
+                </td>
+              )) : (
+                <td className="px-3 py-1.5 text-gray-200">{cell(row)}</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/**
+ * Renders a structured reply: its validation result, then the JSON as a collapsible tree,
+ * or as a table when it is an array.
+ */
+const StructuredOutputView: React.FC<StructuredOutputViewProps> = ({ text, structuredOutput }) => {
+  const { data, errors } = useMemo(
+    () => parseStructuredOutput(text, structuredOutput.schema),
+    [text, structuredOutput.schema]
+  );
+  const isParsed = data !== undefined;
+  const rows = Array.isArray(data) ? data : null;
+  const [view, setView] = useState<'tree' | 'table'>(rows ? 'table' : 'tree');
+  const [copied, setCopied] = useState(false);
+
+  const copyJson = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+    } catch (err) {
+      console.error("Failed to copy the JSON", err);
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const downloadCsv = () => {
+    if (!rows) return;
+    downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv' }), `${slugify(structuredOutput.name)}.csv`);
+  };
+
+  const toolButton = 'flex items-center gap-1 px-2 py-1 rounded-md hover:text-white hover:bg-white/5 transition-colors';
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-darker/60 text-xs">
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-white/10 text-gray-400">
+        <Braces className="w-3.5 h-3.5 text-primary" />
+        <span className="font-medium text-white">{structuredOutput.name}</span>
+        {errors.length === 0 ? (
+          <span className="flex items-center gap-1 text-emerald-400/80"><CheckCircle2 className="w-3 h-3" /> Valid</span>
+        ) : (
+          <span className="flex items-center gap-1 text-amber-400/80">
+            <AlertTriangle className="w-3 h-3" />
+            {isParsed ? `${errors.length} validation ${errors.length === 1 ? 'error' : 'errors'}` : 'Not valid JSON'}
+          </span>
+        )}
+        <div className="ml-auto flex items-center">
+          {rows && (
+            <button
+              onClick={() => setView(view === 'table' ? 'tree' : 'table')}
+              className={toolButton}
+              title={view === 'table' ? 'Show as tree' : 'Show as table'}
+            >
+              {view === 'table' ? <ListTree className="w-3.5 h-3.5" /> : <Table className="w-3.5 h-3.5" />}
+              {view === 'table' ? 'Tree' : 'Table'}
+            </button>
+          )}
+          {isParsed && (
+            <button onClick={copyJson} className={toolButton} title="Copy as JSON">
+              {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+              JSON
+            </button>
+          )}
+          {rows && (
+            <button onClick={downloadCsv} className={toolButton} title="Download as CSV">
+              <Download className="w-3.5 h-3.5" />
+              CSV
+            </button>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="px-3 py-2 space-y-0.5 border-b border-white/10 bg-amber-400/5 text-amber-200/80">
+          {errors.map((error, i) => (
+            <li key={i}>
+              <span className="font-mono text-amber-300">{error.path}</span> {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isParsed ? (
+        <pre className="p-3 font-mono text-gray-300 whitespace-pre-wrap break-words">{text}</pre>
+      ) : rows && view === 'table' ? (
+        <JsonTable rows={rows} />
+      ) : (
+        <div className="p-3 font-mono overflow-x-auto">
+          <JsonNode value={data} depth={0} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StructuredOutputView;
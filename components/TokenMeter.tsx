@@ -0,0 +1,52 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { ContextStrategy } from '../types';
+import { CONTEXT_STRATEGIES } from '../constants';
+import { ContextPlan, ContextStatus, formatTokenCount } from '../services/contextWindow';
+
+interface TokenMeterProps {
+  plan: ContextPlan;
+  strategy: ContextStrategy;
+}
+
+const STATUS_LABELS: Record<ContextStatus, string> = {
+  excluded: 'outside context',
+  summarized: 'summarized',
+  attachmentsDropped: 'without attachments',
+};
+
+/**
+ * How much of the model's token budget the next turn uses, and how many messages the
+ * context strategy had to leave out or shorten to fit.
+ */
+const TokenMeter: React.FC<TokenMeterProps> = ({ plan, strategy }) => {
+  const ratio = Math.min(plan.tokens / plan.budget, 1);
+  const barColor = plan.tokens > plan.budget ? 'bg-red-400' : ratio > 0.8 ? 'bg-amber-400' : 'bg-primary';
+
+  const counts = Object.values(plan.statuses).reduce((acc, status) => {
+    acc[status] = (acc[status] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ContextStatus, number>>);
+  const notes = (Object.keys(counts) as ContextStatus[]).map(status => {
+    const count = counts[status]!;
+    return `${count} message${count === 1 ? '' : 's'} ${STATUS_LABELS[status]}`;
+  });
+
+  const strategyLabel = CONTEXT_STRATEGIES.find(s => s.value === strategy)?.label;
+
+  return (
+    <div
+      className="flex items-center gap-2 text-[11px] text-gray-500 font-mono"
+      title={`Context strategy: ${strategyLabel}`}
+    >
+      <Gauge className="w-3.5 h-3.5" />
+      <div className="w-20 h-1 rounded-full bg-white/10 overflow-hidden">
+        <div className={`h-full ${barColor} transition-all`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+      <span>{formatTokenCount(plan.tokens)} / {formatTokenCount(plan.budget)} tokens</span>
+      {notes.length > 0 && <span className="text-amber-400/80">· {notes.join(' · ')}</span>}
+    </div>
+  );
+};
+
+export default TokenMeter;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Wrench, ChevronDown, ChevronRight, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { ToolCall } from '../types';
+import { TOOLS } from '../services/tools';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+}
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const label = TOOLS.find(t => t.name === call.name)?.label || call.name;
+
+  return (
+    <div className="rounded-lg border border-white/10 bg-black/20 text-xs overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-300 hover:bg-white/5 transition-colors"
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Wrench className="w-3.5 h-3.5 text-primary" />
+        <span className="font-medium">{label}</span>
+        <span className="font-mono text-gray-500 truncate">{JSON.stringify(call.args)}</span>
+        <span className="ml-auto shrink-0">
+          {call.status === 'running' && <Loader2 className="w-3.5 h-3.5 animate-spin text-gray-400" />}
+          {call.status === 'success' && <CheckCircle2 className="w-3.5 h-3.5 text-green-400" />}
+          {call.status === 'error' && <XCircle className="w-3.5 h-3.5 text-red-400" />}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2 border-t border-white/5 pt-2">
+          <div>
+            <div className="text-gray-500 mb-1">Arguments</div>
+            <pre className="font-mono text-gray-300 whitespace-pre-wrap break-all">{JSON.stringify(call.args, null, 2)}</pre>
+          </div>
+          {call.status !== 'running' && (
+            <div>
+              <div className="text-gray-500 mb-1">{call.status === 'error' ? 'Error' : 'Result'}</div>
+              <pre className={`font-mono whitespace-pre-wrap break-all ${call.status === 'error' ? 'text-red-400' : 'text-gray-300'}`}>
+                {call.status === 'error' ? call.error : JSON.stringify(call.result, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, BarChart3, Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { Conversation, ModelPrice, UsageRecord } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { UsageTotals, clearUsageRecords, formatCost, groupUsage, loadUsageRecords, totalUsage, usageDay } from '../services/usage';
+import { formatTokenCount } from '../services/contextWindow';
+
+interface UsageDashboardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  conversations: Conversation[];
+  prices: Record<string, ModelPrice>;
+  onPricesChange: (prices: Record<string, ModelPrice>) => void;
+}
+
+type UsageRange = 7 | 30 | 'all';
+
+const RANGES: { value: UsageRange, label: string }[] = [
+  { value: 7, label: '7 days' },
+  { value: 30, label: '30 days' },
+  { value: 'all', label: 'All time' },
+];
+
+const PRICE_FIELDS: { key: keyof ModelPrice, label: string }[] = [
+  { key: 'input', label: 'Input' },
+  { key: 'cachedInput', label: 'Cached' },
+  { key: 'output', label: 'Output' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UsageTable: React.FC<{ title: string, label: string, rows: { key: string, name: string, totals: UsageTotals }[] }> = ({ title, label, rows }) => (
+  <section className="bg-surface/60 border border-white/10 rounded-xl overflow-hidden">
+    <h3 className="px-4 py-3 text-sm font-medium text-white border-b border-white/10">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="px-4 py-6 text-sm text-gray-500 text-center">No usage yet.</p>
+    ) : (
+      <div className="overflow-x-auto max-h-80">
+        <table className="w-full text-xs">
+          <thead className="text-gray-500 sticky top-0 bg-surface">
+            <tr>
+              <th className="text-left font-medium px-4 py-2">{label}</th>
+              <th className="text-right font-medium px-2 py-2">Calls</th>
+              <th className="text-right font-medium px-2 py-2">Prompt</th>
+              <th className="text-right font-medium px-2 py-2">Cached</th>
+              <th className="text-right font-medium px-2 py-2">Output</th>
+              <th className="text-right font-medium px-2 py-2">Thinking</th>
+              <th className="text-right font-medium px-2 py-2">Avg latency</th>
+              <th className="text-right font-medium px-4 py-2">Cost</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-gray-300">
+            {rows.map(({ key, name, totals }) => (
+              <tr key={key} className="border-t border-white/5">
+                <td className="px-4 py-2 font-sans truncate max-w-[14rem]" title={name}>{name}</td>
+                <td className="text-right px-2 py-2">{totals.requests}</td>
+                <td className="text-right px-2 py-2">{formatTokenCount(totals.promptTokens)}</td>
+                <td className="text-right px-2 py-2">{formatTokenCount(totals.cachedTokens)}</td>
+                <td className="text-right px-2 py-2">{formatTokenCount(totals.outputTokens)}</td>
+                <td className="text-right px-2 py-2">{formatTokenCount(totals.thinkingTokens)}</td>
+                <td className="text-right px-2 py-2">{(totals.latencyMs / totals.requests / 1000).toFixed(1)}s</td>
+                <td className="text-right px-4 py-2 text-white">{formatCost(totals.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </section>
+);
+
+/**
+ * Totals from the local usage log, broken down by model, day and conversation, with the
+ * price table used to turn tokens into costs.
+ */
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, onClose, conversations, prices, onPricesChange }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [isLoadingRecords, setIsLoadingRecords] = useState(false);
+  const [range, setRange] = useState<UsageRange>(30);
+
+  // Reload on every open so calls made since last time are included
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoadingRecords(true);
+    loadUsageRecords()
+      .then(setRecords)
+      .catch(err => console.error("Failed to load usage", err))
+      .finally(() => setIsLoadingRecords(false));
+  }, [isOpen]);
+
+  const visibleRecords = useMemo(() => {
+    if (range === 'all') return records;
+    const since = Date.now() - range * DAY_MS;
+    return records.filter(r => r.timestamp >= since);
+  }, [records, range]);
+
+  if (!isOpen) return null;
+
+  const totals = totalUsage(visibleRecords, prices);
+  const titles = new Map(conversations.map(c => [c.id, c.title]));
+
+  const byModel = groupUsage(visibleRecords, r => r.model, prices).map(g => ({ ...g, name: g.key }));
+  const byDay = groupUsage(visibleRecords, usageDay, prices)
+    .sort((a, b) => b.key.localeCompare(a.key))
+    .map(g => ({ ...g, name: new Date(`${g.key}T00:00`).toLocaleDateString() }));
+  const byConversation = groupUsage(visibleRecords, r => r.conversationId ?? '', prices).map(g => ({
+    ...g,
+    name: !g.key ? 'Outside conversations' : titles.get(g.key) ?? 'Deleted conversation',
+  }));
+
+  // Models that were used but have no price yet are listed so they can be filled in
+  const pricedModels = Array.from(new Set([...Object.keys(prices), ...records.map(r => r.model)]));
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = prices[model] ?? { input: 0, output: 0, cachedInput: 0 };
+    onPricesChange({ ...prices, [model]: { ...current, [key]: Math.max(0, parseFloat(value) || 0) } });
+  };
+
+  const clearLog = async () => {
+    if (!window.confirm('Delete the whole usage log? Prices are kept.')) return;
+    try {
+      await clearUsageRecords();
+      setRecords([]);
+    } catch (err) {
+      console.error("Failed to clear usage", err);
+    }
+  };
+
+  const stats = [
+    { label: 'Estimated cost', value: formatCost(totals.cost) },
+    { label: 'Calls', value: `${totals.requests}` },
+    { label: 'Prompt tokens', value: formatTokenCount(totals.promptTokens) },
+    { label: 'Output + thinking', value: formatTokenCount(totals.outputTokens + totals.thinkingTokens) },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-darker/95 backdrop-blur-xl animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-3 p-4 border-b border-white/10">
+        <h2 className="text-lg font-bold text-white flex items-center gap-2 mr-2">
+          <BarChart3 className="w-5 h-5 text-primary" /> Usage
+          {isLoadingRecords && <Loader2 className="w-4 h-4 animate-spin text-gray-500" />}
+        </h2>
+
+        <div className="flex rounded-lg border border-white/10 overflow-hidden text-sm">
+          {RANGES.map(r => (
+            <button
+              key={r.value}
+              onClick={() => setRange(r.value)}
+              className={`px-3 py-1.5 transition-colors ${range === r.value ? 'bg-primary/20 text-white' : 'text-gray-400 hover:bg-white/5'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={clearLog}
+            disabled={records.length === 0}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-red-400 hover:bg-white/5 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear log
+          </button>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/5 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="bg-surface/60 border border-white/10 rounded-xl p-4">
+              <p className="text-xs text-gray-500">{stat.label}</p>
+              <p className="text-2xl font-bold text-white font-mono mt-1">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          <UsageTable title="By model" label="Model" rows={byModel} />
+          <UsageTable title="By day" label="Day" rows={byDay} />
+          <UsageTable title="By conversation" label="Conversation" rows={byConversation} />
+
+          {/* Prices */}
+          <section className="bg-surface/60 border border-white/10 rounded-xl overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+              <h3 className="text-sm font-medium text-white">Prices <span className="text-gray-500 font-normal">· USD per 1M tokens</span></h3>
+              <button
+                onClick={() => onPricesChange({ ...DEFAULT_MODEL_PRICES })}
+                className="flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors"
+                title="Restore the built-in prices"
+              >
+                <RotateCcw className="w-3.5 h-3.5" /> Reset
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left font-medium px-4 py-2">Model</th>
+                    {PRICE_FIELDS.map(f => <th key={f.key} className="text-right font-medium px-2 py-2">{f.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {pricedModels.map(model => (
+                    <tr key={model} className="border-t border-white/5">
+                      <td className="px-4 py-2 text-gray-300 font-mono truncate max-w-[14rem]" title={model}>{model}</td>
+                      {PRICE_FIELDS.map(f => (
+                        <td key={f.key} className="px-2 py-1.5 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.01}
+                            value={prices[model]?.[f.key] ?? ''}
+                            placeholder="—"
+                            onChange={(e) => updatePrice(model, f.key, e.target.value)}
+                            className="w-20 bg-darker border border-white/10 rounded px-2 py-1 text-right text-white font-mono focus:border-primary outline-none"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
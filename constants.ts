@@ -1,11 +1,38 @@
-import { AppSettings, ModelType } from './types';
+import { AppSettings, ContextStrategy, ImageAspectRatio, ModelCapability, ModelInfo, ModelPrice, ModelType, PresetSettings, ProviderId, SamplingLimits, SavedSchema, SettingsPreset } from './types';
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+export const LIVE_HALF_CASCADE_MODEL = 'gemini-live-2.5-flash-preview';
 
 export const INITIAL_SETTINGS: AppSettings = {
+  provider: ProviderId.GEMINI,
   model: ModelType.FLASH,
+  openAIBaseUrl: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible endpoint
+  openAIApiKey: '',
   enableThinking: false,
   thinkingBudget: 0, // Disabled by default
   enableTTS: false,
   systemInstruction: "You are Nova, an advanced AI assistant. You are helpful, precise, and creative. Use Markdown for formatting.",
+  enabledTools: ['calculator', 'get_current_datetime', 'convert_units', 'notes'],
+  liveIncludeChatHistory: true,
+  liveModel: LIVE_MODEL,
+  liveVoice: 'Zephyr',
+  liveLanguage: '',
+  liveInheritPersona: true,
+  ttsVoice: 'Kore',
+  ttsDialogueVoice: 'Puck',
+  ttsStyle: '',
+  ttsSpeed: 1,
+  imageAspectRatio: '1:1',
+  imageVariations: 1,
+  contextStrategy: 'slidingWindow',
+  contextBudgets: {},
+  requestTimeout: 60,
+  maxRetries: 3,
+  stopSequences: [],
+  candidateCount: 1,
+  enableSearchGrounding: false,
+  enableUrlContext: false,
+  enableKnowledge: false,
 };
 
 export const MAX_THINKING_BUDGET_FLASH = 24576;
@@ -13,5 +40,282 @@ export const MAX_THINKING_BUDGET_PRO = 32768;
 
 export const DEFAULT_THINKING_BUDGET = 4096;
 
-export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-export const LIVE_VOICE_NAME = 'Zephyr'; // Puck, Charon, Kore, Fenrir, Zephyr
+// Upper bound on call/response round trips before we stop and return what we have
+export const MAX_TOOL_ROUNDS = 5;
+
+// Backoff between automatic retries doubles from the base delay up to the cap
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 16000;
+// Longest server-requested wait we sit through before giving up instead
+export const MAX_RETRY_AFTER_MS = 60000;
+export const MAX_REQUEST_RETRIES = 5;
+
+// Code blocks run in a sandbox and are stopped once they run longer than this
+export const CODE_RUN_TIMEOUT_MS = 5000;
+// TypeScript snippets first load the compiler into the sandbox, which can take a while
+export const COMPILER_LOAD_TIMEOUT_MS = 30000;
+export const TYPESCRIPT_COMPILER_URL = 'https://cdn.jsdelivr.net/npm/typescript@5.8.2/lib/typescript.js';
+export const MAX_CONSOLE_ENTRIES = 500;
+
+// Knowledge library: documents are split into chunks of about this many characters, each
+// sharing a little text with the previous one so a passage cut at a boundary is still found
+export const KNOWLEDGE_CHUNK_SIZE = 1200;
+export const KNOWLEDGE_CHUNK_OVERLAP = 200;
+export const KNOWLEDGE_TOP_K = 5; // Passages added to a prompt
+export const MAX_KNOWLEDGE_FILE_BYTES = 20 * 1024 * 1024;
+export const KNOWLEDGE_EMBEDDINGS_STORAGE_KEY = 'nova-knowledge-embeddings';
+export const EMBEDDING_MODEL = 'gemini-embedding-001';
+export const EMBEDDING_DIMENSIONS = 768;
+export const EMBEDDING_BATCH_SIZE = 100; // Texts per embedding request
+
+export const NOTES_STORAGE_KEY = 'nova-notes';
+export const SETTINGS_STORAGE_KEY = 'nova-settings';
+export const PRESETS_STORAGE_KEY = 'nova-presets';
+export const SCHEMAS_STORAGE_KEY = 'nova-schemas';
+export const MODEL_PRICES_STORAGE_KEY = 'nova-model-prices';
+
+// Used for models that don't declare their own, e.g. those served by a local server
+export const DEFAULT_SAMPLING_LIMITS: SamplingLimits = {
+  maxTemperature: 2,
+  maxTopK: 100,
+  maxOutputTokens: 32768,
+  maxCandidates: 4,
+};
+
+const GEMINI_CHAT_SAMPLING: SamplingLimits = {
+  maxTemperature: 2,
+  maxTopK: 64,
+  maxOutputTokens: 65536,
+  maxCandidates: 8,
+};
+
+export const MAX_STOP_SEQUENCES = 5;
+
+export const GEMINI_MODELS: ModelInfo[] = [
+  {
+    id: ModelType.FLASH,
+    label: 'Gemini 2.5 Flash (Fast)',
+    provider: ProviderId.GEMINI,
+    capabilities: [ModelCapability.CHAT, ModelCapability.VISION, ModelCapability.THINKING],
+    contextWindow: 1048576,
+    sampling: GEMINI_CHAT_SAMPLING,
+  },
+  {
+    id: ModelType.PRO,
+    label: 'Gemini 3 Pro (Smart)',
+    provider: ProviderId.GEMINI,
+    capabilities: [ModelCapability.CHAT, ModelCapability.VISION, ModelCapability.THINKING],
+    contextWindow: 1048576,
+    sampling: GEMINI_CHAT_SAMPLING,
+  },
+  {
+    id: ModelType.IMAGE_GEN,
+    label: 'Gemini 2.5 Flash Image',
+    provider: ProviderId.GEMINI,
+    capabilities: [ModelCapability.IMAGE_GEN, ModelCapability.VISION],
+  },
+  {
+    id: ModelType.TTS,
+    label: 'Gemini 2.5 Flash TTS',
+    provider: ProviderId.GEMINI,
+    capabilities: [ModelCapability.TTS],
+  },
+  {
+    id: LIVE_MODEL,
+    label: 'Gemini 2.5 Flash Native Audio',
+    provider: ProviderId.GEMINI,
+    capabilities: [ModelCapability.LIVE_AUDIO],
+  },
+  {
+    id: LIVE_HALF_CASCADE_MODEL,
+    label: 'Gemini Live 2.5 Flash',
+    provider: ProviderId.GEMINI,
+    capabilities: [ModelCapability.LIVE_AUDIO],
+  },
+];
+
+// Paid-tier list prices in USD per million tokens. Editable in the usage dashboard.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  [ModelType.FLASH]: { input: 0.30, output: 2.50, cachedInput: 0.03 },
+  [ModelType.PRO]: { input: 2.00, output: 12.00, cachedInput: 0.20 },
+  [ModelType.IMAGE_GEN]: { input: 0.30, output: 30.00, cachedInput: 0.03 },
+  [ModelType.TTS]: { input: 0.50, output: 10.00, cachedInput: 0 },
+  [LIVE_MODEL]: { input: 3.00, output: 12.00, cachedInput: 0 },
+  [LIVE_HALF_CASCADE_MODEL]: { input: 0.50, output: 2.00, cachedInput: 0 },
+};
+
+// Prebuilt voices shared by the Live API and text-to-speech
+export const LIVE_VOICES = [
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Zephyr', description: 'Bright' },
+];
+
+export const LIVE_LANGUAGES = [
+  { code: '', label: 'Auto-detect' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-US', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'cmn-CN', label: 'Mandarin Chinese' },
+];
+
+// Persona for calls that don't inherit the chat's system instruction
+export const LIVE_SYSTEM_INSTRUCTION = "You are Nova, a helpful AI assistant. You are having a voice conversation with the user. Keep your responses concise and natural for spoken conversation.";
+
+export const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+export const MAX_IMAGE_VARIATIONS = 4;
+
+export const MIN_TTS_SPEED = 0.5;
+export const MAX_TTS_SPEED = 2;
+
+export const VOICE_PREVIEW_TEXT = "Hi, I'm Nova. This is how I'll sound when we talk.";
+
+const MB = 1024 * 1024;
+export const MAX_ATTACHMENT_BYTES = 50 * MB;
+export const MAX_TOTAL_ATTACHMENT_BYTES = 100 * MB;
+// Text files are pasted into the prompt, so they get a much smaller limit
+export const MAX_TEXT_ATTACHMENT_BYTES = 1 * MB;
+// Gemini rejects requests over 20 MB; base64 adds a third, so larger payloads go through the Files API
+export const MAX_INLINE_ATTACHMENT_BYTES = 14 * MB;
+
+// Budget for models that don't report a context window, e.g. most local servers
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+// Tokens set aside for the summary that replaces older turns
+export const CONTEXT_SUMMARY_RESERVE = 1024;
+
+export const CONTEXT_STRATEGIES: { value: ContextStrategy, label: string, description: string }[] = [
+  { value: 'dropAttachments', label: 'Drop old attachments', description: 'Stop resending files from older messages first, then drop the oldest turns.' },
+  { value: 'slidingWindow', label: 'Sliding window', description: 'Send only the most recent turns that fit.' },
+  { value: 'summarize', label: 'Summarize older turns', description: 'Replace turns that no longer fit with a running summary.' },
+];
+
+export const CONTEXT_SUMMARY_INSTRUCTION = "You condense conversations. Summarize the transcript you are given so the assistant can continue the conversation without it: keep facts, decisions, names, numbers, open questions and the user's preferences. Write compact Markdown bullet points and nothing else.";
+
+export const CONVERSATION_DB_NAME = 'nova-workspace';
+export const CONVERSATION_DB_VERSION = 3;
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+export const CONVERSATION_EXPORT_FORMAT = 'nova-conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export const PRESET_EXPORT_FORMAT = 'nova-presets';
+export const PRESET_EXPORT_VERSION = 1;
+
+export const PRESET_SETTING_KEYS: (keyof PresetSettings)[] = [
+  'provider', 'model', 'enableThinking', 'thinkingBudget', 'enableTTS', 'ttsVoice', 'ttsStyle', 'systemInstruction',
+];
+
+// Offered until the user saves presets of their own
+export const DEFAULT_PRESETS: SettingsPreset[] = [
+  {
+    id: 'code-reviewer',
+    name: 'Code reviewer',
+    settings: {
+      provider: ProviderId.GEMINI,
+      model: ModelType.PRO,
+      enableThinking: true,
+      thinkingBudget: DEFAULT_THINKING_BUDGET,
+      enableTTS: false,
+      ttsVoice: 'Charon',
+      ttsStyle: '',
+      systemInstruction: "You are a senior software engineer reviewing code. Point out bugs, edge cases, security issues and unclear naming, most important first. Quote the lines you mean and suggest concrete fixes. Skip praise and don't restate what the code does.",
+    },
+  },
+  {
+    id: 'translator',
+    name: 'Translator',
+    settings: {
+      provider: ProviderId.GEMINI,
+      model: ModelType.FLASH,
+      enableThinking: false,
+      thinkingBudget: 0,
+      enableTTS: false,
+      ttsVoice: 'Kore',
+      ttsStyle: '',
+      systemInstruction: "You are a professional translator. Translate the user's text into English, or into the language they ask for, keeping tone, formatting and meaning. Reply with the translation only, and add a short note only when something can't be translated faithfully.",
+    },
+  },
+  {
+    id: 'brainstorm',
+    name: 'Brainstorm',
+    settings: {
+      provider: ProviderId.GEMINI,
+      model: ModelType.FLASH,
+      enableThinking: false,
+      thinkingBudget: 0,
+      enableTTS: false,
+      ttsVoice: 'Puck',
+      ttsStyle: 'upbeat',
+      systemInstruction: "You are an energetic brainstorming partner. Offer many varied ideas as short bullet points, including a few unconventional ones, then build on whichever the user picks. Ask a question when the goal is unclear.",
+    },
+  },
+];
+
+// Offered in structured mode until the user saves schemas of their own
+export const DEFAULT_SCHEMAS: SavedSchema[] = [
+  {
+    id: 'contacts',
+    name: 'Contacts',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          email: { type: 'string' },
+          phone: { type: 'string' },
+          company: { type: 'string' },
+        },
+        required: ['name'],
+      },
+    },
+  },
+  {
+    id: 'receipt',
+    name: 'Receipt',
+    schema: {
+      type: 'object',
+      properties: {
+        merchant: { type: 'string' },
+        date: { type: 'string', description: 'ISO 8601 date' },
+        currency: { type: 'string' },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              description: { type: 'string' },
+              quantity: { type: 'number', minimum: 0 },
+              price: { type: 'number' },
+            },
+            required: ['description', 'price'],
+          },
+        },
+        total: { type: 'number' },
+      },
+      required: ['merchant', 'items', 'total'],
+    },
+  },
+  {
+    id: 'sentiment',
+    name: 'Sentiment',
+    schema: {
+      type: 'object',
+      properties: {
+        sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        keyPhrases: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['sentiment', 'confidence'],
+    },
+  },
+];
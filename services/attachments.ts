@@ -0,0 +1,120 @@
+import { Attachment } from "../types";
+import { MAX_ATTACHMENT_BYTES, MAX_TEXT_ATTACHMENT_BYTES, MAX_TOTAL_ATTACHMENT_BYTES } from "../constants";
+
+/**
+ * Reading, validating and describing files attached to a message. Images, PDFs, audio and
+ * video are sent to the model as files; text and source files are sent as prompt text.
+ */
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'video' | 'text' | 'file';
+
+const TEXT_FILE_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log',
+  'html', 'css', 'scss', 'js', 'jsx', 'mjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift',
+  'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh', 'bash', 'sql', 'r', 'lua', 'dart', 'vue', 'svelte',
+];
+
+const TEXT_MIME_PATTERN = /^text\/|^application\/(?:json|xml|javascript|typescript|x-sh|x-yaml|sql)/;
+
+// Value for the file picker's `accept` attribute
+export const ACCEPTED_FILE_TYPES = [
+  'image/*', 'application/pdf', 'audio/*', 'video/*', 'text/*',
+  ...TEXT_FILE_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+// Files the knowledge library can index: anything with text to extract
+export const KNOWLEDGE_FILE_TYPES = [
+  'application/pdf', '.pdf', 'text/*',
+  ...TEXT_FILE_EXTENSIONS.map(ext => `.${ext}`),
+].join(',');
+
+const extensionOf = (name?: string): string => name?.split('.').pop()?.toLowerCase() || '';
+
+export const getAttachmentKind = (attachment: Pick<Attachment, 'mimeType' | 'name'>): AttachmentKind => {
+  const { mimeType } = attachment;
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  // Browsers often report source files as empty or octet-stream, so the extension decides
+  if (TEXT_MIME_PATTERN.test(mimeType) || TEXT_FILE_EXTENSIONS.includes(extensionOf(attachment.name))) return 'text';
+  return 'file';
+};
+
+/**
+ * Size of the decoded payload, estimated from the base64 length for attachments saved
+ * before sizes were recorded.
+ */
+export const getAttachmentSize = (attachment: Attachment): number => {
+  return attachment.size ?? Math.floor(attachment.data.length * 3 / 4);
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const attachmentLabel = (attachment: Attachment, index = 0): string => {
+  return attachment.name || `attachment-${index + 1}`;
+};
+
+/**
+ * Splits picked files into those that fit the per-file and total limits, given what is
+ * already attached, and a message for each one that doesn't.
+ */
+export const validateFiles = (files: File[], existing: Attachment[]): { accepted: File[], errors: string[] } => {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+  let total = existing.reduce((sum, att) => sum + getAttachmentSize(att), 0);
+
+  files.forEach(file => {
+    const kind = getAttachmentKind({ mimeType: file.type, name: file.name });
+    const limit = kind === 'text' ? MAX_TEXT_ATTACHMENT_BYTES : MAX_ATTACHMENT_BYTES;
+
+    if (kind === 'file') {
+      errors.push(`${file.name} isn't a supported file type.`);
+    } else if (file.size > limit) {
+      errors.push(`${file.name} is larger than ${formatFileSize(limit)}.`);
+    } else if (total + file.size > MAX_TOTAL_ATTACHMENT_BYTES) {
+      errors.push(`${file.name} would take the message over ${formatFileSize(MAX_TOTAL_ATTACHMENT_BYTES)}.`);
+    } else {
+      accepted.push(file);
+      total += file.size;
+    }
+  });
+
+  return { accepted, errors };
+};
+
+export const readFileAsAttachment = (file: File): Promise<Attachment> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const isText = getAttachmentKind({ mimeType: file.type, name: file.name }) === 'text';
+      resolve({
+        mimeType: file.type || (isText ? 'text/plain' : 'application/octet-stream'),
+        data: (reader.result as string).split(',')[1] || '',
+        previewUrl: URL.createObjectURL(file),
+        name: file.name,
+        size: file.size,
+      });
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Couldn't read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
+
+export const decodeTextAttachment = (attachment: Attachment): string => {
+  const bytes = Uint8Array.from(atob(attachment.data), c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Text and source files are sent as a fenced block in the prompt, since models accept
+ * only a few text MIME types as files.
+ */
+export const textAttachmentPrompt = (attachment: Attachment, index = 0): string => {
+  const name = attachmentLabel(attachment, index);
+  return `File: ${name}\n\`\`\`${extensionOf(attachment.name)}\n${decodeTextAttachment(attachment)}\n\`\`\``;
+};
@@ -0,0 +1,240 @@
+/**
+ * Microphone capture built on an AudioWorklet. Audio is resampled off the main thread to
+ * mono PCM16 at the requested rate and delivered in fixed-size chunks, with throttled
+ * level metering, optional voice activity detection and a mute that drops audio at the
+ * source. Nothing here is tied to a particular model, so any feature that needs raw
+ * microphone audio can use it.
+ */
+
+export interface VoiceActivityOptions {
+  threshold: number; // Minimum RMS (0-1) treated as speech, raised automatically in noisy rooms
+  hangoverMs: number; // Keep sending this long after the last loud chunk so words aren't clipped
+  preRollMs: number; // Quiet audio kept and flushed when speech starts, to catch soft onsets
+}
+
+export interface AudioCaptureOptions {
+  onAudio: (pcm: Int16Array) => void;
+  onLevel?: (level: number) => void; // 0-1, at most once per `levelIntervalMs`
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
+  sampleRate?: number;
+  chunkMs?: number;
+  levelIntervalMs?: number;
+  vad?: Partial<VoiceActivityOptions> | false; // `false` streams every chunk, silence included
+}
+
+export interface AudioCapture {
+  sampleRate: number;
+  setMuted: (muted: boolean) => void;
+  stop: () => void;
+}
+
+export const DEFAULT_CAPTURE_SAMPLE_RATE = 16000;
+
+export const DEFAULT_VAD_OPTIONS: VoiceActivityOptions = {
+  threshold: 0.01,
+  hangoverMs: 800,
+  preRollMs: 300,
+};
+
+const DEFAULT_CHUNK_MS = 100;
+const DEFAULT_LEVEL_INTERVAL_MS = 100;
+
+// Speech must be this many times louder than the background noise estimate
+const NOISE_FLOOR_MARGIN = 3;
+// Scales RMS so normal speech fills most of a level meter
+const LEVEL_GAIN = 5;
+
+const PROCESSOR_NAME = 'nova-pcm-capture';
+
+/**
+ * Runs on the audio rendering thread. The context keeps the hardware rate, so the processor
+ * resamples itself: box-filter averaging when downsampling (which also removes most content
+ * above the new Nyquist), linear interpolation in the rare case the hardware rate is lower.
+ */
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.step = sampleRate / targetSampleRate;
+    this.chunkSize = chunkSize;
+    this.muted = false;
+    this.reset();
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'mute') {
+        this.muted = event.data.muted;
+        this.reset();
+      }
+    };
+  }
+
+  reset() {
+    this.chunk = new Int16Array(this.chunkSize);
+    this.length = 0;
+    this.sumSquares = 0;
+    this.position = 0;
+    this.acc = 0;
+    this.count = 0;
+    this.last = 0;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.length++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this.sumSquares += s * s;
+    if (this.length === this.chunkSize) {
+      const rms = Math.sqrt(this.sumSquares / this.chunkSize);
+      this.port.postMessage({ pcm: this.chunk, rms }, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.length = 0;
+      this.sumSquares = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || this.muted) return true;
+
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      if (this.step >= 1) {
+        this.acc += x;
+        this.count++;
+        this.position += 1;
+        if (this.position >= this.step) {
+          this.position -= this.step;
+          this.push(this.acc / this.count);
+          this.acc = 0;
+          this.count = 0;
+        }
+      } else {
+        while (this.position < 1) {
+          this.push(this.last + (x - this.last) * this.position);
+          this.position += this.step;
+        }
+        this.position -= 1;
+        this.last = x;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+/**
+ * Asks for the microphone and starts streaming PCM16 chunks to `onAudio`. Call `stop()` to
+ * release the microphone and audio context.
+ */
+export const startAudioCapture = async (options: AudioCaptureOptions): Promise<AudioCapture> => {
+  const sampleRate = options.sampleRate ?? DEFAULT_CAPTURE_SAMPLE_RATE;
+  const chunkMs = options.chunkMs ?? DEFAULT_CHUNK_MS;
+  const levelIntervalMs = options.levelIntervalMs ?? DEFAULT_LEVEL_INTERVAL_MS;
+  const vad = options.vad === false ? null : { ...DEFAULT_VAD_OPTIONS, ...options.vad };
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+  });
+
+  let ctx: AudioContext | undefined;
+  let node: AudioWorkletNode;
+  try {
+    ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+    node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      processorOptions: {
+        targetSampleRate: sampleRate,
+        chunkSize: Math.round(sampleRate * chunkMs / 1000),
+      },
+    });
+  } catch (error) {
+    stream.getTracks().forEach(track => track.stop());
+    ctx?.close().catch(() => {});
+    throw error;
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  // The processor writes no output, so routing it to the speakers is silent but keeps it running
+  source.connect(node);
+  node.connect(ctx.destination);
+
+  let muted = false;
+  let isSpeaking = false;
+  let lastSpeechAt = 0;
+  let lastLevelAt = 0;
+  let noiseFloor = vad ? vad.threshold / NOISE_FLOOR_MARGIN : 0;
+  let preRoll: Int16Array[] = [];
+  const preRollChunks = vad ? Math.ceil(vad.preRollMs / chunkMs) : 0;
+
+  const endSpeech = () => {
+    if (!isSpeaking) return;
+    isSpeaking = false;
+    options.onSpeechEnd?.();
+  };
+
+  node.port.onmessage = (event: MessageEvent<{ pcm: Int16Array, rms: number }>) => {
+    // Chunks already queued when mute was pressed are dropped here
+    if (muted) return;
+    const { pcm, rms } = event.data;
+    const now = performance.now();
+
+    if (options.onLevel && now - lastLevelAt >= levelIntervalMs) {
+      lastLevelAt = now;
+      options.onLevel(Math.min(rms * LEVEL_GAIN, 1));
+    }
+
+    if (!vad) {
+      options.onAudio(pcm);
+      return;
+    }
+
+    if (rms >= Math.max(vad.threshold, noiseFloor * NOISE_FLOOR_MARGIN)) {
+      lastSpeechAt = now;
+      if (!isSpeaking) {
+        isSpeaking = true;
+        options.onSpeechStart?.();
+        preRoll.forEach(options.onAudio);
+        preRoll = [];
+      }
+      options.onAudio(pcm);
+    } else if (isSpeaking) {
+      options.onAudio(pcm);
+      if (now - lastSpeechAt >= vad.hangoverMs) endSpeech();
+    } else {
+      noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+      preRoll.push(pcm);
+      if (preRoll.length > preRollChunks) preRoll.shift();
+    }
+  };
+
+  return {
+    sampleRate,
+    setMuted: (value) => {
+      if (value === muted) return;
+      muted = value;
+      node.port.postMessage({ type: 'mute', muted: value });
+      if (muted) {
+        endSpeech();
+        preRoll = [];
+        options.onLevel?.(0);
+      }
+    },
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      ctx.close().catch(() => {});
+    },
+  };
+};
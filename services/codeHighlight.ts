@@ -0,0 +1,270 @@
+/**
+ * A small regex tokenizer for syntax highlighting fenced code blocks. It only tells
+ * comments, strings, keywords, numbers and markup apart, which is enough to make code
+ * readable without pulling a full grammar library into the bundle.
+ */
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'keyword' | 'literal' | 'number' | 'tag' | 'attr';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageRules {
+  rules: [TokenType, string][]; // Tried in order at each position
+  caseInsensitive?: boolean;
+}
+
+const keywords = (words: string) => `\\b(?:${words.trim().split(/\s+/).join('|')})\\b`;
+
+// End of the code; `$` would stop at the end of the line, as patterns run in multiline mode
+const END = '(?![\\s\\S])';
+const LINE_COMMENT = '//.*';
+const BLOCK_COMMENT = `/\\*[\\s\\S]*?(?:\\*/|${END})`;
+const HASH_COMMENT = '#.*';
+const DOUBLE_QUOTED = '"(?:[^"\\\\\\n]|\\\\.)*"?';
+const SINGLE_QUOTED = "'(?:[^'\\\\\\n]|\\\\.)*'?";
+const BACKTICK = '`(?:[^`\\\\]|\\\\[\\s\\S])*`?';
+const NUMBER = '\\b(?:0[xX][\\da-fA-F_]+|0[bB][01_]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)[a-zA-Z]*\\b';
+
+const JS_KEYWORDS = `
+  async await break case catch class const continue debugger default delete do else export extends
+  finally for from function if import in instanceof let new of return static super switch this throw
+  try typeof var void while with yield`;
+const TS_KEYWORDS = `${JS_KEYWORDS}
+  abstract any as asserts boolean declare enum implements infer interface is keyof namespace never
+  number object private protected public readonly satisfies string symbol type unique unknown`;
+const C_LIKE_LITERALS = keywords('true false null undefined NaN Infinity');
+
+const cLike = (words: string, literals = C_LIKE_LITERALS): LanguageRules => ({
+  rules: [
+    ['comment', LINE_COMMENT],
+    ['comment', BLOCK_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', keywords(words)],
+    ['literal', literals],
+    ['number', NUMBER],
+  ],
+});
+
+const javascript: LanguageRules = {
+  rules: [['string', BACKTICK], ...cLike(JS_KEYWORDS).rules],
+};
+
+const typescript: LanguageRules = {
+  rules: [['string', BACKTICK], ...cLike(TS_KEYWORDS).rules],
+};
+
+const python: LanguageRules = {
+  rules: [
+    ['comment', HASH_COMMENT],
+    ['string', `[rbfRBF]{0,2}"""[\\s\\S]*?(?:"""|${END})`],
+    ['string', `[rbfRBF]{0,2}'''[\\s\\S]*?(?:'''|${END})`],
+    ['string', `[rbfRBF]{0,2}${DOUBLE_QUOTED}`],
+    ['string', `[rbfRBF]{0,2}${SINGLE_QUOTED}`],
+    ['keyword', keywords(`
+      and as assert async await break class continue def del elif else except finally for from global
+      if import in is lambda match case nonlocal not or pass raise return try while with yield`)],
+    ['literal', keywords('True False None self')],
+    ['attr', '@[\\w.]+'],
+    ['number', NUMBER],
+  ],
+};
+
+const markup: LanguageRules = {
+  rules: [
+    ['comment', `<!--[\\s\\S]*?(?:-->|${END})`],
+    ['tag', '</?[\\w:-]+|/?>'],
+    ['attr', '\\b[\\w:-]+(?=\\s*=)'],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+  ],
+};
+
+const css: LanguageRules = {
+  rules: [
+    ['comment', BLOCK_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['keyword', '@[\\w-]+|!important'],
+    ['attr', '[\\w-]+(?=\\s*:[^:])'],
+    ['number', '#[\\da-fA-F]{3,8}\\b|-?\\b\\d+(?:\\.\\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?'],
+  ],
+};
+
+const json: LanguageRules = {
+  rules: [
+    ['attr', '"(?:[^"\\\\\\n]|\\\\.)*"(?=\\s*:)'],
+    ['string', DOUBLE_QUOTED],
+    ['literal', keywords('true false null')],
+    ['number', '-?\\b\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?\\b'],
+  ],
+};
+
+const shell: LanguageRules = {
+  rules: [
+    ['comment', '(?:^|\\s)#.*'],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['attr', '\\$\\{[^}]*\\}|\\$\\w+'],
+    ['keyword', keywords('if then else elif fi for while until do done case esac in function return export local sudo echo cd')],
+    ['number', '\\b\\d+\\b'],
+  ],
+};
+
+const sql: LanguageRules = {
+  caseInsensitive: true,
+  rules: [
+    ['comment', '--.*'],
+    ['comment', BLOCK_COMMENT],
+    ['string', SINGLE_QUOTED],
+    ['string', DOUBLE_QUOTED],
+    ['keyword', keywords(`
+      select from where and or not insert into values update set delete create table alter drop index
+      join left right inner outer full on as group by order having limit offset distinct union all case
+      when then else end primary key foreign references default with returning in is like between exists`)],
+    ['literal', keywords('null true false')],
+    ['number', NUMBER],
+  ],
+};
+
+const yaml: LanguageRules = {
+  rules: [
+    ['comment', HASH_COMMENT],
+    ['attr', '[\\w.-]+(?=\\s*:(?:\\s|$))'],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['literal', keywords('true false null yes no')],
+    ['number', NUMBER],
+  ],
+};
+
+const LANGUAGES: Record<string, LanguageRules> = {
+  javascript,
+  typescript,
+  python,
+  markup,
+  css,
+  json,
+  shell,
+  sql,
+  yaml,
+  java: cLike(`
+    abstract boolean break byte case catch char class const continue default do double else enum extends
+    final finally float for if implements import instanceof int interface long new package private
+    protected public return short static super switch this throw throws try var void while record`),
+  c: cLike(`
+    auto bool break case char class const constexpr continue default delete do double else enum extern
+    float for if include inline int long namespace new private protected public return short signed
+    sizeof static struct switch template this typedef typename union unsigned using virtual void while`,
+    keywords('true false NULL nullptr')),
+  csharp: cLike(`
+    abstract as async await base bool break case catch class const continue decimal default do double
+    else enum event explicit extern finally float for foreach get if implicit in int interface internal
+    is lock long namespace new object out override params private protected public readonly record ref
+    return sealed set static string struct switch this throw try typeof using var virtual void while`),
+  go: cLike(`
+    break case chan const continue default defer else fallthrough for func go goto if import interface
+    map package range return select struct switch type var`, keywords('true false nil iota')),
+  rust: cLike(`
+    as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod
+    move mut pub ref return self Self static struct super trait type unsafe use where while`,
+    keywords('true false None Some Ok Err')),
+  kotlin: cLike(`
+    as break class continue data do else enum for fun if import in interface is object override package
+    private public return sealed super this throw try typealias val var when while`),
+  swift: cLike(`
+    as break case catch class continue default defer do else enum extension for func guard if import
+    in init let protocol return self static struct switch throw throws try var where while`,
+    keywords('true false nil')),
+  php: cLike(`
+    abstract array as break case catch class const continue default do echo else elseif extends final
+    finally fn for foreach function if implements interface namespace new private protected public
+    return static switch throw trait try use while`, keywords('true false null')),
+  ruby: {
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['attr', ':\\w+'],
+      ['keyword', keywords(`
+        alias and begin break case class def defined do else elsif end ensure for if in module next not
+        or redo rescue retry return self super then unless until when while yield require`)],
+      ['literal', keywords('true false nil')],
+      ['number', NUMBER],
+    ],
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python',
+  html: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  scss: 'css', less: 'css',
+  bash: 'shell', sh: 'shell', zsh: 'shell', console: 'shell', shellscript: 'shell',
+  yml: 'yaml',
+  cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', objc: 'c',
+  cs: 'csharp', 'c#': 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  kt: 'kotlin',
+  rb: 'ruby',
+  jsonc: 'json', json5: 'json',
+};
+
+// One combined pattern per language, built on first use
+const patterns = new Map<string, RegExp>();
+
+const patternFor = (language: string): { pattern: RegExp, types: TokenType[] } | null => {
+  const name = ALIASES[language] ?? language;
+  const rules = LANGUAGES[name];
+  if (!rules) return null;
+  if (!patterns.has(name)) {
+    patterns.set(name, new RegExp(rules.rules.map(([, source]) => `(${source})`).join('|'), rules.caseInsensitive ? 'gmi' : 'gm'));
+  }
+  return { pattern: patterns.get(name)!, types: rules.rules.map(([type]) => type) };
+};
+
+export const isHighlightable = (language: string): boolean => patternFor(language.toLowerCase()) !== null;
+
+/**
+ * Splits code into highlighted tokens, one array per line. Unknown languages come back
+ * as plain text.
+ */
+export const highlightCode = (code: string, language: string): Token[][] => {
+  const tokens: Token[] = [];
+  const compiled = patternFor(language.toLowerCase());
+
+  if (compiled) {
+    const { pattern, types } = compiled;
+    pattern.lastIndex = 0;
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(code)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      if (match.index > position) tokens.push({ type: 'plain', text: code.slice(position, match.index) });
+      const group = match.findIndex((value, i) => i > 0 && value !== undefined);
+      tokens.push({ type: types[group - 1], text: match[0] });
+      position = match.index + match[0].length;
+    }
+    if (position < code.length) tokens.push({ type: 'plain', text: code.slice(position) });
+  } else {
+    tokens.push({ type: 'plain', text: code });
+  }
+
+  // Tokens spanning several lines, like block comments, are cut at each line break
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  }
+  return lines;
+};
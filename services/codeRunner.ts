@@ -0,0 +1,200 @@
+import { CODE_RUN_TIMEOUT_MS, COMPILER_LOAD_TIMEOUT_MS, MAX_CONSOLE_ENTRIES, TYPESCRIPT_COMPILER_URL } from "../constants";
+
+/**
+ * Runs code blocks from replies in a sandbox. Scripts run in a worker loaded from a data
+ * URL, so they get an opaque origin with no access to the workspace's storage, and can be
+ * terminated when they hang. HTML is rendered in a sandboxed iframe that reports its
+ * console output back.
+ */
+
+export type RunnableKind = 'javascript' | 'typescript' | 'html';
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  text: string;
+}
+
+export interface ScriptRunResult {
+  error?: string; // Uncaught error or syntax error
+  timedOut: boolean;
+  durationMs: number;
+}
+
+const RUNNABLE_LANGUAGES: Record<string, RunnableKind> = {
+  js: 'javascript', javascript: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  ts: 'typescript', typescript: 'typescript',
+  html: 'html', htm: 'html',
+};
+
+export const runnableKind = (language: string): RunnableKind | null => {
+  return RUNNABLE_LANGUAGES[language.toLowerCase()] ?? null;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  javascript: 'js', typescript: 'ts', python: 'py', shell: 'sh', bash: 'sh', zsh: 'sh', console: 'sh',
+  ruby: 'rb', rust: 'rs', golang: 'go', kotlin: 'kt', csharp: 'cs', 'c#': 'cs', 'c++': 'cpp',
+  markdown: 'md', yaml: 'yml', text: 'txt', plaintext: 'txt', dockerfile: 'Dockerfile',
+};
+
+/**
+ * File extension for a code block's language tag, e.g. `py` for "python". Short tags
+ * like "ts" or "json" are extensions already.
+ */
+export const extensionForLanguage = (language: string): string => {
+  const tag = language.toLowerCase();
+  if (!tag) return 'txt';
+  return EXTENSIONS[tag] ?? (/^[\w+-]{1,10}$/.test(tag) ? tag : 'txt');
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  SCRIPTS                                   */
+/* -------------------------------------------------------------------------- */
+
+// Shared by the worker and the HTML bridge: turns console arguments into display text
+const FORMAT_SOURCE = `
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') return String(value);
+    try {
+      return JSON.stringify(value, null, 2) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+`;
+
+// The code arrives by message rather than being pasted into the script, so nothing in it can escape
+const WORKER_SOURCE = `
+  ${FORMAT_SOURCE}
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    console[level] = (...args) => postMessage({ type: 'log', level, text: args.map(format).join(' ') });
+  }
+  self.addEventListener('unhandledrejection', (e) => {
+    postMessage({ type: 'log', level: 'error', text: 'Unhandled rejection: ' + format(e.reason) });
+  });
+  self.onmessage = async ({ data }) => {
+    try {
+      let code = data.code;
+      if (data.compilerUrl) {
+        importScripts(data.compilerUrl);
+        code = ts.transpile(code, { target: ts.ScriptTarget.ES2022 });
+      }
+      postMessage({ type: 'started' });
+      // Run as an async function body so top-level await works
+      const AsyncFunction = (async () => {}).constructor;
+      await new AsyncFunction(code)();
+      postMessage({ type: 'done' });
+    } catch (error) {
+      postMessage({ type: 'error', text: format(error) });
+    }
+  };
+`;
+
+export interface ScriptRunOptions {
+  signal?: AbortSignal; // Stops the script
+  onLog: (entry: ConsoleEntry) => void;
+}
+
+/**
+ * Runs a JavaScript or TypeScript snippet and reports its console output as it comes.
+ * The run ends when the snippet returns (awaiting it, if it uses top-level await), throws,
+ * or runs past `CODE_RUN_TIMEOUT_MS`. Timers still pending at that point never fire.
+ */
+export const runScript = (
+  code: string,
+  kind: 'javascript' | 'typescript',
+  { signal, onLog }: ScriptRunOptions
+): Promise<ScriptRunResult> => new Promise(resolve => {
+  const worker = new Worker(`data:text/javascript;charset=utf-8,${encodeURIComponent(WORKER_SOURCE)}`);
+  let startedAt = Date.now();
+  let logCount = 0;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const finish = (result: Omit<ScriptRunResult, 'durationMs'>) => {
+    clearTimeout(timer);
+    worker.terminate();
+    signal?.removeEventListener('abort', onAbort);
+    resolve({ ...result, durationMs: Date.now() - startedAt });
+  };
+  const onAbort = () => finish({ error: 'Stopped', timedOut: false });
+  const startTimer = (ms: number) => {
+    clearTimeout(timer);
+    timer = setTimeout(() => finish({ timedOut: true }), ms);
+  };
+
+  worker.onmessage = ({ data }) => {
+    if (data.type === 'log') {
+      // Past the cap, output is dropped so a chatty loop can't flood the page
+      if (++logCount === MAX_CONSOLE_ENTRIES + 1) onLog({ level: 'warn', text: `Output truncated after ${MAX_CONSOLE_ENTRIES} entries` });
+      if (logCount <= MAX_CONSOLE_ENTRIES) onLog({ level: data.level, text: data.text });
+    } else if (data.type === 'started') {
+      startedAt = Date.now();
+      startTimer(CODE_RUN_TIMEOUT_MS);
+    } else if (data.type === 'done') {
+      finish({ timedOut: false });
+    } else if (data.type === 'error') {
+      finish({ error: data.text, timedOut: false });
+    }
+  };
+  // Fires for errors outside the snippet, e.g. when the compiler fails to load
+  worker.onerror = (e) => {
+    e.preventDefault();
+    finish({ error: e.message || 'The sandbox failed to start', timedOut: false });
+  };
+
+  if (signal?.aborted) return onAbort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  startTimer(kind === 'typescript' ? COMPILER_LOAD_TIMEOUT_MS : CODE_RUN_TIMEOUT_MS);
+  worker.postMessage({ code, compilerUrl: kind === 'typescript' ? TYPESCRIPT_COMPILER_URL : undefined });
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                    HTML                                    */
+/* -------------------------------------------------------------------------- */
+
+export const HTML_HEARTBEAT_MS = 500;
+
+// Forwards console output and errors to the app, and signals that the page is still responsive
+const HTML_BRIDGE = `<script>(() => {
+  ${FORMAT_SOURCE}
+  const send = (message) => parent.postMessage({ source: 'nova-sandbox', ...message }, '*');
+  for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+    const original = console[level];
+    console[level] = (...args) => {
+      send({ type: 'log', level, text: args.map(format).join(' ') });
+      original.apply(console, args);
+    };
+  }
+  addEventListener('error', (e) => send({ type: 'log', level: 'error', text: e.message }));
+  addEventListener('unhandledrejection', (e) => send({ type: 'log', level: 'error', text: 'Unhandled rejection: ' + format(e.reason) }));
+  setInterval(() => send({ type: 'heartbeat' }), ${HTML_HEARTBEAT_MS});
+})();</script>`;
+
+/**
+ * The document to load into the preview iframe: the snippet with the console bridge
+ * placed first in its head, or in front of it when it is a fragment.
+ */
+export const buildHtmlDocument = (code: string): string => {
+  if (/<head[^>]*>/i.test(code)) return code.replace(/<head[^>]*>/i, match => match + HTML_BRIDGE);
+  if (/<html[^>]*>/i.test(code)) return code.replace(/<html[^>]*>/i, match => `${match}<head>${HTML_BRIDGE}</head>`);
+  return HTML_BRIDGE + code;
+};
+
+export type SandboxMessage = { type: 'log', entry: ConsoleEntry } | { type: 'heartbeat' };
+
+/**
+ * Reads a message posted by the HTML bridge; anything else yields null.
+ */
+export const parseSandboxMessage = (data: unknown): SandboxMessage | null => {
+  const message = data as { source?: unknown, type?: unknown, level?: unknown, text?: unknown } | null;
+  if (!message || message.source !== 'nova-sandbox') return null;
+  if (message.type === 'heartbeat') return { type: 'heartbeat' };
+  if (message.type === 'log' && typeof message.text === 'string') {
+    const level = ['log', 'info', 'warn', 'error', 'debug'].includes(message.level as string) ? message.level as ConsoleLevel : 'log';
+    return { type: 'log', entry: { level, text: message.text } };
+  }
+  return null;
+};
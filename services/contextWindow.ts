@@ -0,0 +1,239 @@
+import { AppSettings, Attachment, ChatMessage, ContextSummary, MessageRole, TokenUsage } from "../types";
+import { CONTEXT_SUMMARY_INSTRUCTION, CONTEXT_SUMMARY_RESERVE, DEFAULT_CONTEXT_WINDOW, GEMINI_MODELS } from "../constants";
+import { getProvider } from "./providers";
+import { attachmentLabel, getAttachmentKind, getAttachmentSize } from "./attachments";
+import { RetryOptions, withRetry } from "./errors";
+
+/**
+ * Keeps the history sent with each turn inside the model's token budget. Messages are
+ * counted with the provider's tokenizer where it has one and estimated otherwise, then the
+ * conversation's strategy decides what to leave out once the thread no longer fits.
+ */
+
+export type ContextStatus = 'excluded' | 'summarized' | 'attachmentsDropped';
+
+export interface ContextPlan {
+  messages: ChatMessage[]; // History to send, starting with the summary when there is one
+  statuses: Record<string, ContextStatus>; // Messages not sent as they are
+  tokens: number; // Size of what is sent, including the system instruction and the new turn
+  budget: number;
+  pendingSummary?: ChatMessage[]; // Turns to fold into a new summary before sending
+}
+
+// Rough per-file costs, used when the provider can't count tokens
+const IMAGE_TOKENS = 258;
+const PDF_BYTES_PER_PAGE = 50_000;
+const AUDIO_BYTES_PER_TOKEN = 500; // 32 tokens per second at 128 kbps
+const VIDEO_BYTES_PER_TOKEN = 425; // ~300 tokens per second at 1 Mbps
+
+const estimateTextTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateAttachmentTokens = (attachment: Attachment): number => {
+  const size = getAttachmentSize(attachment);
+  switch (getAttachmentKind(attachment)) {
+    case 'image': return IMAGE_TOKENS;
+    case 'pdf': return Math.ceil(size / PDF_BYTES_PER_PAGE) * IMAGE_TOKENS;
+    case 'audio': return Math.ceil(size / AUDIO_BYTES_PER_TOKEN);
+    case 'video': return Math.ceil(size / VIDEO_BYTES_PER_TOKEN);
+    default: return Math.ceil(size / 4);
+  }
+};
+
+export const estimateTokens = (message: Pick<ChatMessage, 'text' | 'attachments'>): number => {
+  return estimateTextTokens(message.text)
+    + (message.attachments || []).reduce((sum, att) => sum + estimateAttachmentTokens(att), 0);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  COUNTING                                  */
+/* -------------------------------------------------------------------------- */
+
+// Tokenizer counts per model and message. Finished messages never change, so counts are kept for the session.
+const tokenCounts = new Map<string, number>();
+
+// Error replies and placeholders are never sent to the model
+const isLocalOnly = (message: ChatMessage): boolean => !!message.isError || !!message.isThinking;
+
+const countKey = (message: ChatMessage, settings: AppSettings): string => {
+  return `${settings.provider}:${settings.model}:${message.id}:${message.text.length}:${message.attachments?.length ?? 0}`;
+};
+
+/**
+ * Returns the counted size of a message, or an estimate until it has been counted.
+ */
+export const getTokenCount = (message: ChatMessage, settings: AppSettings): number => {
+  if (isLocalOnly(message)) return 0;
+  return tokenCounts.get(countKey(message, settings)) ?? estimateTokens(message);
+};
+
+export const isTokenCountCached = (message: ChatMessage, settings: AppSettings): boolean => {
+  return isLocalOnly(message) || tokenCounts.has(countKey(message, settings));
+};
+
+/**
+ * Counts a message with the provider's tokenizer. Falls back to an estimate, which isn't
+ * cached, when the provider can't count or the request fails.
+ */
+export const countMessageTokens = async (message: ChatMessage, settings: AppSettings, useCache = true): Promise<number> => {
+  if (isLocalOnly(message)) return 0;
+  const key = countKey(message, settings);
+  const cached = useCache ? tokenCounts.get(key) : undefined;
+  if (cached !== undefined) return cached;
+
+  const provider = getProvider(settings.provider);
+  if (!provider.countTokens) return estimateTokens(message);
+
+  try {
+    const tokens = await provider.countTokens([message], settings);
+    if (useCache) tokenCounts.set(key, tokens);
+    return tokens;
+  } catch (err) {
+    console.warn("Token count failed, using an estimate", err);
+    return estimateTokens(message);
+  }
+};
+
+export const getContextBudget = (settings: AppSettings): number => {
+  const model = GEMINI_MODELS.find(m => m.id === settings.model);
+  return settings.contextBudgets[settings.model] || model?.contextWindow || DEFAULT_CONTEXT_WINDOW;
+};
+
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return `${tokens}`;
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  PLANNING                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * The summary goes first as a user turn, followed by a short model turn so roles still
+ * alternate when the kept history starts with the user.
+ */
+const summaryMessages = (summary: ContextSummary): ChatMessage[] => [
+  {
+    id: `summary:${summary.throughMessageId}`,
+    role: MessageRole.USER,
+    text: `Summary of the earlier part of this conversation, which is no longer included in full:\n\n${summary.text}`,
+    timestamp: 0,
+  },
+  {
+    id: `summary-ack:${summary.throughMessageId}`,
+    role: MessageRole.MODEL,
+    text: 'Understood. I will continue from there.',
+    timestamp: 0,
+  },
+];
+
+/**
+ * Decides what history to send with the next turn. `counts` holds the token count of each
+ * history message and `pendingTokens` the size of the new turn. Nothing is trimmed while
+ * everything fits; otherwise the settings' strategy is applied from the oldest message on.
+ * The newest messages are always kept, even when they alone exceed the budget.
+ */
+export const planContext = (
+  history: ChatMessage[],
+  counts: number[],
+  pendingTokens: number,
+  settings: AppSettings,
+  summary?: ContextSummary
+): ContextPlan => {
+  const budget = getContextBudget(settings);
+  const statuses: Record<string, ContextStatus> = {};
+  const sizes = [...counts];
+  const messages = [...history];
+  const fixedTokens = estimateTextTokens(settings.systemInstruction) + pendingTokens;
+  const total = () => fixedTokens + sizes.reduce((sum, size) => sum + size, 0);
+
+  if (total() <= budget) return { messages, statuses, tokens: total(), budget };
+
+  if (settings.contextStrategy === 'dropAttachments') {
+    for (let i = 0; i < messages.length - 1 && total() > budget; i++) {
+      const message = messages[i];
+      if (!message.attachments || message.attachments.length === 0) continue;
+      messages[i] = { ...message, attachments: undefined };
+      sizes[i] = Math.min(sizes[i], estimateTextTokens(message.text));
+      statuses[message.id] = 'attachmentsDropped';
+    }
+    if (total() <= budget) return { messages, statuses, tokens: total(), budget };
+  }
+
+  // Drop whole turns from the start, leaving room for the summary if one will be sent
+  const reserve = settings.contextStrategy === 'summarize' ? CONTEXT_SUMMARY_RESERVE : 0;
+  let start = 0;
+  while (start < messages.length - 1 && total() + reserve > budget) {
+    sizes[start] = 0;
+    start++;
+  }
+  // History must start with a user turn
+  while (start < messages.length && messages[start].role !== MessageRole.USER) {
+    sizes[start] = 0;
+    start++;
+  }
+
+  const dropped = history.slice(0, start);
+  const kept = messages.slice(start);
+  const droppedStatus: ContextStatus = settings.contextStrategy === 'summarize' ? 'summarized' : 'excluded';
+  dropped.forEach(m => { statuses[m.id] = droppedStatus; });
+
+  if (settings.contextStrategy !== 'summarize' || dropped.length === 0) {
+    return { messages: kept, statuses, tokens: total(), budget };
+  }
+
+  const throughMessageId = dropped[dropped.length - 1].id;
+  if (summary?.throughMessageId !== throughMessageId) {
+    return { messages: kept, statuses, tokens: total() + reserve, budget, pendingSummary: dropped };
+  }
+
+  const withSummary = [...summaryMessages(summary), ...kept];
+  return { messages: withSummary, statuses, tokens: total() + estimateTextTokens(summary.text), budget };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                SUMMARIZING                                 */
+/* -------------------------------------------------------------------------- */
+
+const transcriptLine = (message: ChatMessage): string => {
+  const author = message.role === MessageRole.USER ? 'User' : 'Assistant';
+  const files = (message.attachments || []).map((att, i) => attachmentLabel(att, i));
+  const attached = files.length > 0 ? ` [attached: ${files.join(', ')}]` : '';
+  return `${author}:${attached} ${message.text}`;
+};
+
+/**
+ * Summarizes the turns a plan leaves out. When an earlier summary covers the start of
+ * them, only the newer turns are read and merged into it. The streaming call is used
+ * because it reports token usage. `retryOptions` carries the turn's signal and timeout.
+ */
+export const summarizeTurns = async (
+  turns: ChatMessage[],
+  settings: AppSettings,
+  previous?: ContextSummary,
+  retryOptions: RetryOptions = {}
+): Promise<{ summary: ContextSummary, usage?: TokenUsage }> => {
+  const covered = previous ? turns.findIndex(m => m.id === previous.throughMessageId) : -1;
+  const newTurns = turns.slice(covered + 1).filter(m => !isLocalOnly(m));
+
+  const prompt = [
+    covered >= 0 ? `Summary so far:\n${previous!.text}\n\nUpdate it with the rest of the conversation:` : 'Conversation:',
+    ...newTurns.map(transcriptLine),
+  ].join('\n\n');
+
+  const result = await withRetry(({ signal, keepAlive }) => getProvider(settings.provider).streamMessage([], prompt, [], {
+    ...settings,
+    systemInstruction: CONTEXT_SUMMARY_INSTRUCTION,
+    enabledTools: [],
+    enableThinking: false,
+    stopSequences: [],
+    candidateCount: 1,
+    enableSearchGrounding: false,
+    enableUrlContext: false,
+  }, { onText: keepAlive }, signal), retryOptions);
+
+  return {
+    summary: { throughMessageId: turns[turns.length - 1].id, text: result.text.trim() },
+    usage: result.usage,
+  };
+};
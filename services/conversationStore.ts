@@ -0,0 +1,134 @@
+import { Attachment, Conversation } from "../types";
+import { CONVERSATION_DB_NAME, CONVERSATION_DB_VERSION, INITIAL_SETTINGS } from "../constants";
+import { migrateToTree } from "./messageTree";
+
+const CONVERSATIONS_STORE = 'conversations';
+export const USAGE_STORE = 'usage';
+export const KNOWLEDGE_DOCUMENTS_STORE = 'knowledgeDocuments';
+export const KNOWLEDGE_CHUNKS_STORE = 'knowledgeChunks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily upgrades) the IndexedDB database that backs the workspace, usage log
+ * and knowledge library.
+ * The connection is cached for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(CONVERSATION_DB_NAME, CONVERSATION_DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        const store = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      }
+      if (!db.objectStoreNames.contains(KNOWLEDGE_DOCUMENTS_STORE)) {
+        db.createObjectStore(KNOWLEDGE_DOCUMENTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(KNOWLEDGE_CHUNKS_STORE)) {
+        const store = db.createObjectStore(KNOWLEDGE_CHUNKS_STORE, { keyPath: 'id' });
+        store.createIndex('documentId', 'documentId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Object URLs only live as long as the page, so they are never written to disk.
+ */
+const dehydrateAttachment = (attachment: Attachment): Attachment => ({
+  ...attachment,
+  previewUrl: '',
+});
+
+/**
+ * Recreates a `previewUrl` from the stored base64 payload.
+ */
+const rehydrateAttachment = (attachment: Attachment): Attachment => ({
+  ...attachment,
+  previewUrl: URL.createObjectURL(base64ToBlob(attachment.data, attachment.mimeType)),
+});
+
+/**
+ * Loads every stored conversation, most recently updated first.
+ */
+export const loadConversations = async (): Promise<Conversation[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(CONVERSATIONS_STORE, 'readonly').objectStore(CONVERSATIONS_STORE);
+  const conversations = await promisifyRequest<Conversation[]>(store.getAll());
+
+  return conversations
+    .map(conversation => ({
+      ...conversation,
+      // Fill in settings added since the conversation was stored
+      settings: { ...INITIAL_SETTINGS, ...conversation.settings },
+      messages: migrateToTree(conversation.messages).map(m => m.attachments
+        ? { ...m, attachments: m.attachments.map(rehydrateAttachment) }
+        : m
+      ),
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Inserts or replaces a conversation.
+ */
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(CONVERSATIONS_STORE, 'readwrite').objectStore(CONVERSATIONS_STORE);
+
+  await promisifyRequest(store.put({
+    ...conversation,
+    messages: conversation.messages.map(m => m.attachments
+      ? { ...m, attachments: m.attachments.map(dehydrateAttachment) }
+      : m
+    ),
+  }));
+};
+
+/**
+ * Removes a conversation and all of its messages.
+ */
+export const deleteConversation = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(CONVERSATIONS_STORE, 'readwrite').objectStore(CONVERSATIONS_STORE);
+  await promisifyRequest(store.delete(id));
+};
+
+/**
+ * Decodes a base64 payload into a Blob of the given type.
+ */
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
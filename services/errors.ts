@@ -0,0 +1,181 @@
+import { ErrorKind } from "../types";
+import { MAX_RETRY_AFTER_MS, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from "../constants";
+
+/**
+ * Sorts provider failures into kinds the UI can explain, and retries the transient ones
+ * with exponential backoff.
+ */
+
+export const ERROR_TITLES: Record<ErrorKind, string> = {
+  rateLimit: 'Rate limit reached',
+  auth: 'API key rejected',
+  safety: 'Blocked by safety filters',
+  network: 'Network error',
+  timeout: 'Request timed out',
+  server: 'Server error',
+  unknown: 'Something went wrong',
+};
+
+export const ERROR_EXPLANATIONS: Record<ErrorKind, string> = {
+  rateLimit: "The model is getting too many requests, or the quota for your key is used up. Wait a moment and try again, or check your plan's limits.",
+  auth: "The API key is missing, invalid or not allowed to use this model. Check the key and try again.",
+  safety: "The message or the reply was blocked by the model's safety filters. Rephrasing the message may help.",
+  network: "The server couldn't be reached. Check your connection, or that the local server is running.",
+  timeout: "The model stopped responding before it finished. Try again, or raise the request timeout in settings.",
+  server: "The model service ran into a problem on its side. This is usually temporary.",
+  unknown: "The request failed for an unexpected reason.",
+};
+
+const TRANSIENT_KINDS: ErrorKind[] = ['rateLimit', 'network', 'timeout', 'server'];
+
+export class ServiceError extends Error {
+  readonly kind: ErrorKind;
+  readonly detail: string; // The provider's own message
+  readonly retryAfterMs?: number; // Wait the server asked for, if any
+
+  constructor(kind: ErrorKind, detail: string, retryAfterMs?: number) {
+    super(ERROR_EXPLANATIONS[kind]);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.detail = detail;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get isTransient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+}
+
+export const errorKindForStatus = (status: number): ErrorKind | null => {
+  if (status === 429) return 'rateLimit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  return null;
+};
+
+// Gemini puts RetryInfo in the error body, e.g. "retryDelay": "31s"
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Wraps any thrown value in a `ServiceError`, using the HTTP status when the error has one
+ * and the status names Google APIs put in their messages otherwise.
+ */
+export const classifyError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  const text = message.toLowerCase();
+
+  let kind: ErrorKind = (status !== undefined ? errorKindForStatus(status) : null) ?? 'unknown';
+  if (kind === 'unknown') {
+    if (/resource_exhausted|quota|rate limit|too many requests/.test(text)) kind = 'rateLimit';
+    else if (/api key|api_key_invalid|permission_denied|unauthenticated|unauthorized/.test(text)) kind = 'auth';
+    else if (/deadline_exceeded|timed out|timeout/.test(text)) kind = 'timeout';
+    else if (/unavailable|overloaded|internal error/.test(text)) kind = 'server';
+    // fetch rejects with a TypeError when the request never got a response
+    else if (error instanceof TypeError || /failed to fetch|networkerror|load failed/.test(text) || !navigator.onLine) kind = 'network';
+  }
+
+  return new ServiceError(kind, message, kind === 'rateLimit' ? parseRetryDelay(message) : undefined);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  RETRYING                                  */
+/* -------------------------------------------------------------------------- */
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Cancels the current attempt and any pending retry
+  timeoutMs?: number; // Fails an attempt that makes no progress for this long; 0 waits indefinitely
+  maxRetries?: number;
+  canRetry?: (error: ServiceError) => boolean; // E.g. not once part of a reply has been shown
+  onRetry?: (error: ServiceError, attempt: number, delayMs: number) => void;
+}
+
+export interface RequestAttempt {
+  signal: AbortSignal;
+  keepAlive: () => void; // Restarts the timeout, e.g. when a streamed chunk arrives
+}
+
+/**
+ * Delay before retry number `attempt` (from 0). Half of it is random so clients that
+ * failed together don't retry together. A longer wait requested by the server wins.
+ */
+export const retryDelay = (attempt: number, error: ServiceError): number => {
+  const cap = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  const delay = cap / 2 + Math.random() * cap / 2;
+  return Math.max(delay, error.retryAfterMs ?? 0);
+};
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs a request, retrying transient failures. Each attempt gets its own signal, aborted
+ * when the caller's signal is or when the attempt times out. Errors are rethrown as
+ * `ServiceError`s, except after the caller cancels.
+ */
+export const withRetry = async <T>(
+  run: (attempt: RequestAttempt) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = 0, maxRetries = 0, canRetry = () => true, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs);
+      }
+    };
+    const timeoutError = () => new ServiceError('timeout', `No response for ${Math.round(timeoutMs / 1000)} seconds`);
+
+    try {
+      keepAlive();
+      const result = await run({ signal: controller.signal, keepAlive });
+      // Streaming providers resolve with what they have when aborted, so a timeout can look like success
+      if (timedOut) throw timeoutError();
+      return result;
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const error = timedOut ? timeoutError() : classifyError(err);
+      const retryable = error.isTransient && attempt < maxRetries && canRetry(error)
+        && (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS;
+      if (!retryable) throw error;
+
+      const delayMs = retryDelay(attempt, error);
+      onRetry?.(error, attempt + 1, delayMs);
+      await wait(delayMs, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
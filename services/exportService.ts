@@ -0,0 +1,330 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import JSZip from 'jszip';
+import katexStyles from 'katex/dist/katex.min.css?raw';
+import { Attachment, ChatMessage, Conversation, MessageRole } from "../types";
+import { CONVERSATION_EXPORT_FORMAT, CONVERSATION_EXPORT_VERSION, INITIAL_SETTINGS } from "../constants";
+import { base64ToBlob } from "./conversationStore";
+import { getActivePath, migrateToTree } from "./messageTree";
+import { attachmentLabel, formatFileSize, getAttachmentKind, getAttachmentSize } from "./attachments";
+import { extractMermaidSources, renderMermaidDiagrams } from "./markdown";
+import { arrayBufferToBase64 } from "./pcmAudio";
+import ConversationDocument from "../components/ConversationDocument";
+
+/**
+ * Versioned envelope for JSON exports. Bump `CONVERSATION_EXPORT_VERSION` whenever the
+ * shape changes and teach `parseConversationExport` to upgrade older files.
+ */
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+export type MarkdownImageMode = 'inline' | 'zip';
+
+// Matches Markdown images whose source is an inline base64 data URI
+export const DATA_URI_IMAGE_PATTERN = /!\[([^\]]*)\]\(data:([\w/.+-]+);base64,([A-Za-z0-9+/=]+)\)/g;
+
+/* -------------------------------------------------------------------------- */
+/*                                  HELPERS                                   */
+/* -------------------------------------------------------------------------- */
+
+export const extensionForMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(/[;+]/)[0] || 'bin';
+  if (subtype === 'jpeg') return 'jpg';
+  if (subtype === 'plain') return 'txt';
+  return subtype;
+};
+
+export const slugify = (text: string): string => {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const authorLabel = (message: ChatMessage): string => {
+  return message.role === MessageRole.USER ? 'You' : 'Nova AI';
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 MARKDOWN                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Exports the visible thread as Markdown. Images are embedded as data URIs, or in `zip`
+ * mode written to an `images/` folder next to `conversation.md`. Other attachments are
+ * listed by name, and in `zip` mode written to a `files/` folder.
+ */
+export const exportAsMarkdown = async (conversation: Conversation, imageMode: MarkdownImageMode): Promise<Blob> => {
+  const zip = imageMode === 'zip' ? new JSZip() : null;
+  let imageCount = 0;
+
+  const addImage = (mimeType: string, data: string): string => {
+    imageCount++;
+    if (!zip) return `data:${mimeType};base64,${data}`;
+    const path = `images/image-${imageCount}.${extensionForMimeType(mimeType)}`;
+    zip.file(path, data, { base64: true });
+    return path;
+  };
+
+  let fileCount = 0;
+  const renderAttachment = (att: Attachment, index: number): string => {
+    if (getAttachmentKind(att) === 'image') return `![attachment](${addImage(att.mimeType, att.data)})`;
+
+    // Other files are too large to embed usefully, so only the zip includes them
+    const name = attachmentLabel(att, index);
+    const label = `${name} (${formatFileSize(getAttachmentSize(att))})`;
+    if (!zip) return `📎 ${label}`;
+    fileCount++;
+    const path = `files/${fileCount}-${name.replace(/[\\/]/g, '_')}`;
+    zip.file(path, att.data, { base64: true });
+    return `📎 [${label}](${encodeURI(path)})`;
+  };
+
+  const sections = getActivePath(conversation).map(message => {
+    const lines = [`### ${authorLabel(message)} · ${new Date(message.timestamp).toLocaleString()}`, ''];
+
+    if (message.attachments && message.attachments.length > 0) {
+      lines.push(message.attachments.map(renderAttachment).join('\n'), '');
+    }
+
+    const text = message.text.replace(DATA_URI_IMAGE_PATTERN, (_match, alt, mimeType, data) => {
+      return `![${alt}](${addImage(mimeType, data)})`;
+    });
+    lines.push(message.isError ? `> **Error:** ${text}` : text);
+    return lines.join('\n');
+  });
+
+  const markdown = [
+    `# ${conversation.title}`,
+    '',
+    `_Exported from Nova on ${new Date().toLocaleString()} · Model: ${conversation.settings.model}_`,
+    '',
+    '---',
+    '',
+    sections.join('\n\n---\n\n'),
+    '',
+  ].join('\n');
+
+  if (!zip) return new Blob([markdown], { type: 'text/markdown' });
+
+  zip.file('conversation.md', markdown);
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    JSON                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Exports the full conversation tree, including every branch, attachment and the settings
+ * used. Object URLs and the provider API key are not exported.
+ */
+export const exportAsJson = (conversation: Conversation): Blob => {
+  const payload: ConversationExport = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      ...conversation,
+      settings: { ...conversation.settings, openAIApiKey: '' },
+      messages: conversation.messages.map(m => m.attachments
+        ? { ...m, attachments: m.attachments.map(a => ({ ...a, previewUrl: '' })) }
+        : m
+      ),
+    },
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+const isRecord = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const validateMessage = (message: unknown, index: number): ChatMessage => {
+  const where = `Message ${index + 1}`;
+  if (!isRecord(message)) throw new Error(`${where} is not an object`);
+  if (typeof message.id !== 'string') throw new Error(`${where} has no id`);
+  if (!Object.values(MessageRole).includes(message.role)) throw new Error(`${where} has an unknown role`);
+  if (typeof message.text !== 'string') throw new Error(`${where} has no text`);
+  if (typeof message.timestamp !== 'number') throw new Error(`${where} has no timestamp`);
+
+  if (message.attachments !== undefined) {
+    if (!Array.isArray(message.attachments)) throw new Error(`${where} has invalid attachments`);
+    message.attachments.forEach((att: unknown) => {
+      if (!isRecord(att) || typeof att.mimeType !== 'string' || typeof att.data !== 'string') {
+        throw new Error(`${where} has an invalid attachment`);
+      }
+    });
+  }
+
+  return message as ChatMessage;
+};
+
+/**
+ * Parses and validates a JSON export, returning a conversation ready to add to the workspace.
+ * Throws with a readable message when the file is not a supported Nova export.
+ */
+export const parseConversationExport = (json: string): Conversation => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(payload) || payload.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error("The file is not a Nova conversation export.");
+  }
+  if (typeof payload.version !== 'number' || payload.version < 1) {
+    throw new Error("The export has no valid schema version.");
+  }
+  if (payload.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`The export uses schema version ${payload.version}, but this version of Nova only supports up to ${CONVERSATION_EXPORT_VERSION}.`);
+  }
+
+  const conversation = payload.conversation;
+  if (!isRecord(conversation)) throw new Error("The export contains no conversation.");
+  if (typeof conversation.id !== 'string' || typeof conversation.title !== 'string') {
+    throw new Error("The conversation is missing its id or title.");
+  }
+  if (!Array.isArray(conversation.messages)) throw new Error("The conversation has no messages.");
+
+  const messages = migrateToTree(conversation.messages.map(validateMessage)).map(m => m.attachments
+    ? {
+        ...m,
+        attachments: m.attachments.map(a => ({
+          ...a,
+          previewUrl: URL.createObjectURL(base64ToBlob(a.data, a.mimeType)),
+        })),
+      }
+    : m
+  );
+
+  const summary = conversation.contextSummary;
+  if (summary !== undefined) {
+    if (!isRecord(summary) || typeof summary.throughMessageId !== 'string' || typeof summary.text !== 'string') {
+      throw new Error("The conversation has an invalid context summary.");
+    }
+    if (!messages.some(m => m.id === summary.throughMessageId)) {
+      throw new Error("The context summary covers a message that isn't in the conversation.");
+    }
+  }
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    messages,
+    settings: { ...INITIAL_SETTINGS, ...(isRecord(conversation.settings) ? conversation.settings : {}) },
+    createdAt: typeof conversation.createdAt === 'number' ? conversation.createdAt : Date.now(),
+    updatedAt: typeof conversation.updatedAt === 'number' ? conversation.updatedAt : Date.now(),
+    isArchived: conversation.isArchived === true ? true : undefined,
+    selectedChildIds: isRecord(conversation.selectedChildIds) ? conversation.selectedChildIds : undefined,
+    contextSummary: summary && { throughMessageId: summary.throughMessageId, text: summary.text },
+    presetId: typeof conversation.presetId === 'string' ? conversation.presetId : undefined,
+  };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    HTML                                    */
+/* -------------------------------------------------------------------------- */
+
+const HTML_EXPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #020617; color: #e2e8f0; font-family: Inter, system-ui, sans-serif; line-height: 1.6; }
+  .transcript { max-width: 56rem; margin: 0 auto; padding: 2rem 1rem; }
+  header { border-bottom: 1px solid rgba(255,255,255,0.1); padding-bottom: 1rem; margin-bottom: 1rem; }
+  h1 { color: #fff; font-size: 1.5rem; margin: 0; }
+  .meta { color: #64748b; font-size: 0.8rem; font-family: 'JetBrains Mono', monospace; margin: 0.25rem 0 0; }
+  .message { padding: 1.5rem; border-bottom: 1px solid rgba(255,255,255,0.05); }
+  .message.model { background: rgba(255,255,255,0.05); }
+  .author { display: flex; align-items: center; gap: 0.5rem; margin-bottom: 0.5rem; font-size: 0.875rem; color: #fff; }
+  .avatar { width: 2rem; height: 2rem; border-radius: 9999px; display: inline-flex; align-items: center; justify-content: center; font-size: 0.65rem; font-weight: 700; }
+  .user .avatar { background: #fff; color: #020617; }
+  .model .avatar { background: linear-gradient(135deg, #6366f1, #a855f7); color: #fff; }
+  time { color: #64748b; font-size: 0.75rem; }
+  .attachments { display: flex; flex-wrap: wrap; gap: 0.5rem; margin-bottom: 1rem; }
+  .attachments img { height: 8rem; border-radius: 0.5rem; border: 1px solid rgba(255,255,255,0.1); }
+  .attachments .file { padding: 0.5rem 0.75rem; border-radius: 0.5rem; border: 1px solid rgba(255,255,255,0.1); background: rgba(255,255,255,0.05); font-size: 0.8rem; }
+  .content img { max-width: 24rem; border-radius: 0.5rem; }
+  .content pre { background: rgba(0,0,0,0.5); border: 1px solid rgba(255,255,255,0.1); border-radius: 0.5rem; padding: 1rem; overflow-x: auto; }
+  .content code { font-family: 'JetBrains Mono', monospace; font-size: 0.85em; }
+  .content a { color: #818cf8; }
+  .content table { border-collapse: collapse; display: block; overflow-x: auto; }
+  .content th, .content td { border: 1px solid rgba(255,255,255,0.1); padding: 0.375rem 0.75rem; text-align: left; }
+  .content th { background: rgba(255,255,255,0.05); color: #fff; }
+  .content .katex-display { overflow-x: auto; overflow-y: hidden; }
+  .content .diagram { margin: 1rem 0; padding: 1rem; background: rgba(0,0,0,0.3); border: 1px solid rgba(255,255,255,0.1); border-radius: 0.5rem; overflow-x: auto; text-align: center; }
+  .content .diagram svg { max-width: 100%; height: auto; }
+  .error .content { color: #f87171; background: rgba(248,113,113,0.1); border: 1px solid rgba(248,113,113,0.2); border-radius: 0.5rem; padding: 0 0.75rem; }
+`;
+
+// KaTeX's fonts as bundled by Vite, by file name
+const KATEX_FONT_URLS: Record<string, string> = Object.fromEntries(
+  Object.entries(import.meta.glob<string>('/node_modules/katex/dist/fonts/*.woff2', { query: '?url', import: 'default', eager: true }))
+    .map(([path, url]) => [path.slice(path.lastIndexOf('/') + 1), url])
+);
+
+let katexStylesPromise: Promise<string> | null = null;
+
+/**
+ * The KaTeX stylesheet with its fonts inlined as data URIs. Only the WOFF2 fonts are kept,
+ * which every current browser reads; a font that fails to load is left linked.
+ */
+const inlineKatexStyles = (): Promise<string> => {
+  if (!katexStylesPromise) {
+    katexStylesPromise = (async () => {
+      const fonts: Record<string, string> = {};
+      await Promise.all(Object.entries(KATEX_FONT_URLS).map(async ([name, url]) => {
+        const response = await fetch(url).catch(() => null);
+        if (response?.ok) fonts[name] = `data:font/woff2;base64,${arrayBufferToBase64(await response.arrayBuffer())}`;
+      }));
+      return katexStyles.replace(
+        /url\(fonts\/([\w-]+\.woff2)\) format\("woff2"\)[^;}]*/g,
+        (match, name: string) => fonts[name] ? `url(${fonts[name]}) format("woff2")` : match
+      );
+    })();
+  }
+  return katexStylesPromise;
+};
+
+/**
+ * Exports the visible thread as a single HTML file with styles and images inlined.
+ * Mermaid diagrams are rendered to SVG up front and math is typeset with KaTeX, whose
+ * stylesheet and fonts are embedded too, so the file looks like the chat and opens offline.
+ */
+export const exportAsHtml = async (conversation: Conversation): Promise<Blob> => {
+  const messages = getActivePath(conversation);
+  const diagrams = await renderMermaidDiagrams(messages.filter(m => !m.isError).flatMap(m => extractMermaidSources(m.text)));
+  const body = renderToStaticMarkup(
+    React.createElement(ConversationDocument, { conversation, messages, diagrams })
+  );
+  const mathStyles = await inlineKatexStyles();
+  const title = conversation.title.replace(/[<>&"]/g, c => `&#${c.charCodeAt(0)};`);
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${title}</title>
+<style>${mathStyles}</style>
+<style>${HTML_EXPORT_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+};
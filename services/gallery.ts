@@ -0,0 +1,111 @@
+import JSZip from 'jszip';
+import { Attachment, ChatMessage, Conversation, ImageAspectRatio, MessageRole, ModelType } from "../types";
+import { base64ToBlob } from "./conversationStore";
+import { DATA_URI_IMAGE_PATTERN, extensionForMimeType, slugify } from "./exportService";
+
+export type GalleryImageSource = 'generated' | 'uploaded';
+
+/**
+ * One image in the gallery, with enough context to find, re-run or download it.
+ */
+export interface GalleryImage {
+  id: string;
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  source: GalleryImageSource;
+  mimeType: string;
+  data: string; // Base64
+  src: string; // Object URL, or a data URI for images stored inline in older messages
+  prompt: string; // Generation prompt, or the text sent with an uploaded image
+  model?: string;
+  aspectRatio?: ImageAspectRatio;
+  sourceImages?: Attachment[]; // Images the prompt edited; sent again when re-running
+  timestamp: number;
+}
+
+const isImage = (attachment: Attachment) => attachment.mimeType.startsWith('image/');
+
+/**
+ * Indexes every generated and uploaded image across all conversations and branches,
+ * newest first. Images that older versions embedded in the reply text are included too.
+ */
+export const collectGalleryImages = (conversations: Conversation[]): GalleryImage[] => {
+  const images: GalleryImage[] = [];
+
+  conversations.forEach(conversation => {
+    const byId = new Map(conversation.messages.map(m => [m.id, m]));
+    const base = { conversationId: conversation.id, conversationTitle: conversation.title };
+
+    const add = (message: ChatMessage, index: number, image: Omit<GalleryImage, 'id' | 'conversationId' | 'conversationTitle' | 'messageId' | 'timestamp'>) => {
+      images.push({ ...base, ...image, id: `${conversation.id}:${message.id}:${index}`, messageId: message.id, timestamp: message.timestamp });
+    };
+
+    conversation.messages.forEach(message => {
+      const parent = message.parentId ? byId.get(message.parentId) : undefined;
+
+      if (message.imageGeneration) {
+        const sourceImages = parent?.attachments?.filter(isImage);
+        message.attachments?.forEach((att, index) => add(message, index, {
+          source: 'generated',
+          mimeType: att.mimeType,
+          data: att.data,
+          src: att.previewUrl,
+          prompt: message.imageGeneration!.prompt,
+          model: message.imageGeneration!.model,
+          aspectRatio: message.imageGeneration!.aspectRatio,
+          sourceImages: sourceImages && sourceImages.length > 0 ? sourceImages : undefined,
+        }));
+        return;
+      }
+
+      if (message.role === MessageRole.USER) {
+        message.attachments?.filter(isImage).forEach((att, index) => add(message, index, {
+          source: 'uploaded',
+          mimeType: att.mimeType,
+          data: att.data,
+          src: att.previewUrl,
+          prompt: message.text,
+        }));
+        return;
+      }
+
+      // Legacy replies from the `/image` command, which always used the square default
+      Array.from(message.text.matchAll(DATA_URI_IMAGE_PATTERN)).forEach((match, index) => add(message, index, {
+        source: 'generated',
+        mimeType: match[2],
+        data: match[3],
+        src: `data:${match[2]};base64,${match[3]}`,
+        prompt: parent ? parent.text.replace(/^\/image|^generate image/i, '').trim() : match[1],
+        model: ModelType.IMAGE_GEN,
+        aspectRatio: '1:1',
+      }));
+    });
+  });
+
+  return images.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const galleryImageFilename = (image: GalleryImage, suffix = ''): string => {
+  return `${slugify(image.prompt || image.conversationTitle)}${suffix}.${extensionForMimeType(image.mimeType)}`;
+};
+
+/**
+ * Packs the given images into a zip, numbering files that would otherwise share a name.
+ */
+export const zipGalleryImages = async (images: GalleryImage[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const used = new Map<string, number>();
+
+  images.forEach(image => {
+    let name = galleryImageFilename(image);
+    const count = used.get(name) ?? 0;
+    used.set(name, count + 1);
+    if (count > 0) name = galleryImageFilename(image, `-${count + 1}`);
+    zip.file(name, image.data, { base64: true });
+  });
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+export const galleryImageBlob = (image: GalleryImage): Blob => base64ToBlob(image.data, image.mimeType);
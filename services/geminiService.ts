@@ -1,87 +1,458 @@
-import { GoogleGenAI, GenerateContentResponse, Chat, Modality, LiveServerMessage } from "@google/genai";
-import { AppSettings, Attachment, ChatMessage, MessageRole, ModelType } from "../types";
-import { LIVE_MODEL, LIVE_VOICE_NAME } from "../constants";
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig, Chat, Modality, LiveServerMessage, Part, FunctionCall, Tool, FileState, Content, GroundingMetadata, UrlContextMetadata } from "@google/genai";
+import { 
+  AppSettings, Attachment, ChatMessage, ChatStreamCallbacks, ChatStreamResult, Embeddings, GeneratedImage, 
+  ImageGenerationRequest, LiveSession, LiveSessionCallbacks, LiveSessionConfig, ModelCapability, ModelProvider, ModelType, ProviderId,
+  SpeechOptions,
+  StructuredOutputInfo,
+  TokenUsage,
+  ToolDefinition
+} from "../types";
+import { EMBEDDING_BATCH_SIZE, EMBEDDING_DIMENSIONS, EMBEDDING_MODEL, GEMINI_MODELS, MAX_INLINE_ATTACHMENT_BYTES, MAX_TOOL_ROUNDS } from "../constants";
+import { executeToolCall, getEnabledTools, toolCallResponse } from "./tools";
+import { parseGeminiGrounding } from "./grounding";
+import { base64ToArrayBuffer } from "./pcmAudio";
+import { attachmentLabel, getAttachmentKind, getAttachmentSize, textAttachmentPrompt } from "./attachments";
+import { base64ToBlob } from "./conversationStore";
+import { addTokenUsage, emptyTokenUsage } from "./usage";
+import { ServiceError, classifyError } from "./errors";
+import { toSamplingParams } from "./sampling";
 
 // Ensure API key is present
 const API_KEY = process.env.API_KEY || '';
 
 const ai = new GoogleGenAI({ apiKey: API_KEY });
 
+/* -------------------------------------------------------------------------- */
+/*                                FILE UPLOADS                                */
+/* -------------------------------------------------------------------------- */
+
+interface UploadedFile {
+  uri: string;
+  mimeType: string;
+  expiresAt: number;
+}
+
+// Attachments sent through the Files API, keyed by `uploadKey`
+const uploadedFiles = new Map<string, UploadedFile>();
+
+// Uploaded files expire after 48 hours; upload again rather than risk one expiring mid-request
+const UPLOAD_REUSE_MARGIN_MS = 60 * 60 * 1000;
+const FILE_POLL_INTERVAL_MS = 2000;
+
+// Hashing a large base64 payload would be slow, so uploads are keyed by size and both ends of the data
+const uploadKey = (attachment: Attachment): string => {
+  const { data } = attachment;
+  return `${attachment.mimeType}:${getAttachmentSize(attachment)}:${data.slice(0, 64)}:${data.slice(-64)}`;
+};
+
+const uploadAttachment = async (attachment: Attachment, signal?: AbortSignal): Promise<UploadedFile> => {
+  const key = uploadKey(attachment);
+  const cached = uploadedFiles.get(key);
+  if (cached && cached.expiresAt - Date.now() > UPLOAD_REUSE_MARGIN_MS) return cached;
+
+  let file = await ai.files.upload({
+    file: base64ToBlob(attachment.data, attachment.mimeType),
+    config: { mimeType: attachment.mimeType, displayName: attachment.name, abortSignal: signal },
+  });
+
+  // Video and large documents are processed before the model can read them
+  while (file.state === FileState.PROCESSING) {
+    await new Promise(resolve => setTimeout(resolve, FILE_POLL_INTERVAL_MS));
+    if (signal?.aborted) throw new Error("Upload cancelled");
+    file = await ai.files.get({ name: file.name!, config: { abortSignal: signal } });
+  }
+  if (file.state === FileState.FAILED || !file.uri) {
+    throw new Error(`Couldn't process ${attachmentLabel(attachment)}: ${file.error?.message || 'upload failed'}`);
+  }
+
+  const uploaded = {
+    uri: file.uri,
+    mimeType: file.mimeType || attachment.mimeType,
+    expiresAt: file.expirationTime ? Date.parse(file.expirationTime) : Date.now() + UPLOAD_REUSE_MARGIN_MS,
+  };
+  uploadedFiles.set(key, uploaded);
+  return uploaded;
+};
+
 /**
- * Sends a message to the chat model.
- * Uses `ai.chats.create` for history management internally for simplicity in this demo,
- * but re-creates context each time to allow dynamic setting changes (like switching models).
+ * Uploads the largest binary attachments in the request until the rest fit inline.
+ * Text files are excluded because they are sent as prompt text.
  */
-export const sendMessageToGemini = async (
-  history: ChatMessage[],
-  currentMessage: string,
+const uploadLargeAttachments = async (
   attachments: Attachment[],
-  settings: AppSettings
-): Promise<string> => {
-  
-  // 1. Construct the history in the format GenAI expects
-  // We filter out local-only states like error messages or thinking placeholders
-  const pastHistory = history
+  signal?: AbortSignal
+): Promise<Map<Attachment, UploadedFile>> => {
+  const binary = attachments
+    .filter(att => getAttachmentKind(att) !== 'text')
+    .sort((a, b) => getAttachmentSize(b) - getAttachmentSize(a));
+
+  let inlineBytes = binary.reduce((sum, att) => sum + getAttachmentSize(att), 0);
+  const toUpload: Attachment[] = [];
+  for (const att of binary) {
+    if (inlineBytes <= MAX_INLINE_ATTACHMENT_BYTES) break;
+    toUpload.push(att);
+    inlineBytes -= getAttachmentSize(att);
+  }
+
+  const uploads = await Promise.all(toUpload.map(att => uploadAttachment(att, signal)));
+  return new Map(toUpload.map((att, i) => [att, uploads[i]]));
+};
+
+const toAttachmentPart = (attachment: Attachment, index: number, uploads: Map<Attachment, UploadedFile>): Part => {
+  if (getAttachmentKind(attachment) === 'text') return { text: textAttachmentPrompt(attachment, index) };
+  const uploaded = uploads.get(attachment);
+  if (uploaded) return { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType } };
+  return { inlineData: { mimeType: attachment.mimeType, data: attachment.data } };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   USAGE                                    */
+/* -------------------------------------------------------------------------- */
+
+// Shape shared by the `usageMetadata` of generateContent responses and Live API messages
+interface ReportedUsage {
+  promptTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  candidatesTokenCount?: number;
+  responseTokenCount?: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+}
+
+const toTokenUsage = (model: string, metadata: ReportedUsage | undefined, startedAt: number): TokenUsage => ({
+  model,
+  promptTokens: (metadata?.promptTokenCount ?? 0) + (metadata?.toolUsePromptTokenCount ?? 0),
+  outputTokens: metadata?.candidatesTokenCount ?? metadata?.responseTokenCount ?? 0,
+  thinkingTokens: metadata?.thoughtsTokenCount ?? 0,
+  cachedTokens: metadata?.cachedContentTokenCount ?? 0,
+  latencyMs: Date.now() - startedAt,
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                   SAFETY                                   */
+/* -------------------------------------------------------------------------- */
+
+// Finish reasons that mean a filter withheld the reply, as opposed to it ending normally
+const BLOCKED_FINISH_REASONS: string[] = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+/**
+ * Blocked prompts and replies come back as ordinary responses without content, so they
+ * are turned into errors here.
+ */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ServiceError('safety', `Prompt blocked: ${blockReason}`);
+  // With several candidates, only the first one decides; the others are optional extras
+  const finishReason = response.candidates?.find(c => (c.index ?? 0) === 0)?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new ServiceError('safety', `Response blocked: ${finishReason}`);
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    CHAT                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Converts local messages to GenAI contents. We filter out local-only states like error
+ * messages or thinking placeholders. Only `text` is replayed, so thought summaries never
+ * go back to the model.
+ */
+const toGeminiContents = (messages: ChatMessage[], uploads: Map<Attachment, UploadedFile>): Content[] => {
+  return messages
     .filter(m => !m.isError && !m.isThinking)
     .map(m => ({
       role: m.role,
       parts: m.attachments && m.attachments.length > 0 
         ? [
-            ...m.attachments.map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+            ...m.attachments.map((a, i) => toAttachmentPart(a, i, uploads)),
             { text: m.text }
           ]
         : [{ text: m.text }]
     }));
+};
 
-  // 2. Configure the model
-  const modelName = settings.model;
-  
+/**
+ * Request config shared by every round of a chat turn. The candidate count is left out
+ * because only the first round asks for more than one.
+ */
+const buildChatConfig = (
+  settings: AppSettings,
+  signal?: AbortSignal,
+  tools: ToolDefinition[] = [],
+  structuredOutput?: StructuredOutputInfo
+): GenerateContentConfig => {
   // Logic for Thinking Config
+  // Thinking is only available on models that declare the capability (2.5 series and 3.0 pro).
+  const modelInfo = GEMINI_MODELS.find(m => m.id === settings.model);
+  const supportsThinking = modelInfo?.capabilities.includes(ModelCapability.THINKING) ?? false;
   let thinkingConfig = undefined;
-  if (settings.enableThinking && settings.thinkingBudget > 0) {
-    // Thinking is only available on 2.5 series or 3.0 pro. 
-    // Flash supports it. Pro supports it.
-    thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+  if (supportsThinking && settings.enableThinking && settings.thinkingBudget > 0) {
+    // Ask for thought summaries so the reasoning can be shown next to the answer
+    thinkingConfig = { thinkingBudget: settings.thinkingBudget, includeThoughts: true };
   }
 
-  // 3. Prepare the new message content
-  const newParts = [];
-  if (attachments.length > 0) {
-    attachments.forEach(att => {
-      newParts.push({
-        inlineData: {
-          mimeType: att.mimeType,
-          data: att.data
-        }
-      });
-    });
-  }
-  newParts.push({ text: currentMessage });
+  // Local tools are declared with their raw JSON schemas
+  const functionTools: Tool[] = tools.length > 0
+    ? [{
+        functionDeclarations: tools.map(t => ({
+          name: t.name,
+          description: t.description,
+          parametersJsonSchema: t.parameters,
+        }))
+      }]
+    : [];
+
+  // Built-in grounding tools run on Google's side; a response schema rules them out
+  const groundingTools: Tool[] = structuredOutput ? [] : [
+    ...(settings.enableSearchGrounding ? [{ googleSearch: {} }] : []),
+    ...(settings.enableUrlContext ? [{ urlContext: {} }] : []),
+  ];
+  const allTools = [...functionTools, ...groundingTools];
+
+  const { candidateCount: _candidateCount, ...sampling } = toSamplingParams(settings);
+
+  return {
+    systemInstruction: settings.systemInstruction,
+    thinkingConfig: thinkingConfig,
+    tools: allTools.length > 0 ? allTools : undefined,
+    abortSignal: signal,
+    ...sampling,
+    ...(structuredOutput && {
+      responseMimeType: 'application/json',
+      responseJsonSchema: structuredOutput.schema,
+    }),
+  };
+};
 
-  // 4. Create Chat Session
+/**
+ * Builds a chat session from the local message history, followed by `pending` contents
+ * of the turn in progress.
+ * Uses `ai.chats.create` for history management internally for simplicity in this demo,
+ * but re-creates context each time to allow dynamic setting changes (like switching models).
+ */
+const createChatSession = (
+  history: ChatMessage[],
+  settings: AppSettings,
+  uploads: Map<Attachment, UploadedFile>,
+  signal?: AbortSignal,
+  tools: ToolDefinition[] = [],
+  pending: Content[] = []
+): Chat => {
   // We recreate the chat to ensure the latest system instructions and model config are applied
-  const chatSession: Chat = ai.chats.create({
-    model: modelName,
-    history: pastHistory,
-    config: {
-      systemInstruction: settings.systemInstruction,
-      thinkingConfig: thinkingConfig,
-    },
+  return ai.chats.create({
+    model: settings.model,
+    history: [...toGeminiContents(history, uploads), ...pending],
+    config: buildChatConfig(settings, signal, tools),
   });
+};
 
-  // 5. Send Message
-  // Note: sendMessage accepts { message: string | Part[] } 
-  // However, the SDK type definition for `message` in sendMessage is strictly `string | string[] | Part | Part[]` 
-  // or a complex object depending on version. The safest is to use the `parts` structure if we have images.
-  
+const historyAttachments = (history: ChatMessage[]): Attachment[] => {
+  return history.filter(m => !m.isError && !m.isThinking).flatMap(m => m.attachments || []);
+};
+
+/**
+ * Prepares the parts of the new user message.
+ * Note: sendMessage accepts { message: string | Part[] } 
+ * However, the SDK type definition for `message` in sendMessage is strictly `string | string[] | Part | Part[]` 
+ * or a complex object depending on version. The safest is to use the `parts` structure if we have images.
+ */
+const buildMessageParts = (
+  currentMessage: string,
+  attachments: Attachment[],
+  uploads: Map<Attachment, UploadedFile>
+): string | Part[] => {
+  if (attachments.length === 0) return currentMessage;
+
+  const newParts: Part[] = attachments.map((att, i) => toAttachmentPart(att, i, uploads));
+  newParts.push({ text: currentMessage });
+  return newParts;
+};
+
+/**
+ * Sends a message to the chat model and waits for the complete answer.
+ */
+export const sendMessageToGemini = async (
+  history: ChatMessage[],
+  currentMessage: string,
+  attachments: Attachment[],
+  settings: AppSettings
+): Promise<string> => {
   try {
+    const uploads = await uploadLargeAttachments([...historyAttachments(history), ...attachments]);
+    const chatSession = createChatSession(history, settings, uploads);
     const result: GenerateContentResponse = await chatSession.sendMessage({
-      message: newParts.length === 1 && !attachments.length ? currentMessage : newParts 
+      message: buildMessageParts(currentMessage, attachments, uploads)
     });
+    throwIfBlocked(result);
     return result.text || "";
   } catch (error) {
     console.error("Gemini Chat Error:", error);
-    throw error;
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Counts the tokens the messages take up in the model's context. Large attachments are
+ * uploaded just as they would be for sending, and the upload is reused when they are sent.
+ */
+export const countTokensWithGemini = async (messages: ChatMessage[], settings: AppSettings): Promise<number> => {
+  const contents = toGeminiContents(messages, await uploadLargeAttachments(historyAttachments(messages)));
+  if (contents.length === 0) return 0;
+  const result = await ai.models.countTokens({ model: settings.model, contents });
+  return result.totalTokens ?? 0;
+};
+
+/**
+ * Splits a candidate's parts into answer text and thought summary text. Reading the parts
+ * directly avoids the SDK's warning about non-text parts when the chunk also carries function calls.
+ */
+const extractPartsText = (parts: Part[]): { text: string, thought: string } => {
+  let text = '';
+  let thought = '';
+  for (const part of parts) {
+    if (typeof part.text !== 'string') continue;
+    if (part.thought) thought += part.text;
+    else text += part.text;
+  }
+  return { text, thought };
+};
+
+/**
+ * Sends a message to the chat model and streams the answer back chunk by chunk.
+ * When the model calls enabled tools, they are executed locally and their results are
+ * sent back until the model produces a final answer (bounded by `MAX_TOOL_ROUNDS`).
+ * Aborting the signal stops the stream and resolves with the text received so far.
+ * With `structuredOutput`, the reply is JSON following its schema and no tools are offered,
+ * since Gemini can't combine function calling with a response schema. Grounding replaces
+ * the local tools too, as most models reject search alongside function declarations.
+ */
+export const streamMessageToGemini = async (
+  history: ChatMessage[],
+  currentMessage: string,
+  attachments: Attachment[],
+  settings: AppSettings,
+  callbacks: ChatStreamCallbacks,
+  signal?: AbortSignal,
+  structuredOutput?: StructuredOutputInfo
+): Promise<ChatStreamResult> => {
+  let fullText = '';
+  let fullThoughts = '';
+  let thinkingTokens = 0;
+  const startedAt = Date.now();
+  let usage = emptyTokenUsage(settings.model);
+  const { candidateCount } = toSamplingParams(settings);
+  // Text of the other candidates, by candidate index minus one. Only streamed for the first round.
+  let alternatives: string[] = [];
+  // Sent with the final chunks of a grounded reply
+  let groundingMetadata: GroundingMetadata | undefined;
+  let urlContextMetadata: UrlContextMetadata | undefined;
+  const result = (truncated: boolean): ChatStreamResult => ({
+    text: fullText,
+    truncated,
+    thoughts: fullThoughts,
+    thinkingTokens,
+    usage: { ...usage, latencyMs: Date.now() - startedAt },
+    candidates: alternatives.some(Boolean) ? [fullText, ...alternatives.filter(Boolean)] : undefined,
+    grounding: parseGeminiGrounding(fullText, groundingMetadata, urlContextMetadata),
+  });
+
+  try {
+    const uploads = await uploadLargeAttachments([...historyAttachments(history), ...attachments], signal);
+    const isGrounded = settings.enableSearchGrounding || settings.enableUrlContext;
+    const tools = structuredOutput || isGrounded ? [] : getEnabledTools(settings);
+    let chatSession = createChatSession(history, settings, uploads, signal, tools);
+    let message: string | Part[] = buildMessageParts(currentMessage, attachments, uploads);
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const isMultiCandidate = round === 0 && candidateCount > 1;
+      // A per-message config replaces the session's, so it repeats the shared settings
+      const stream = await chatSession.sendMessageStream(isMultiCandidate || structuredOutput
+        ? { message, config: { ...buildChatConfig(settings, signal, tools, structuredOutput), candidateCount } }
+        : { message });
+      const functionCalls: FunctionCall[] = [];
+      const primaryParts: Part[] = [];
+      let roundThinkingTokens = 0;
+      let roundUsage: ReportedUsage | undefined;
+      // Text from a later round starts a new paragraph
+      let separator = fullText ? '\n\n' : '';
+
+      for await (const chunk of stream) {
+        if (signal?.aborted) break;
+        throwIfBlocked(chunk);
+        // Usage is cumulative within a round, so the last chunk carries the round's total
+        roundThinkingTokens = chunk.usageMetadata?.thoughtsTokenCount ?? roundThinkingTokens;
+        roundUsage = chunk.usageMetadata ?? roundUsage;
+
+        for (const candidate of chunk.candidates || []) {
+          const parts = candidate.content?.parts || [];
+          const index = candidate.index ?? 0;
+          if (index > 0) {
+            alternatives[index - 1] = (alternatives[index - 1] ?? '') + extractPartsText(parts).text;
+            continue;
+          }
+
+          groundingMetadata = candidate.groundingMetadata ?? groundingMetadata;
+          urlContextMetadata = candidate.urlContextMetadata ?? urlContextMetadata;
+          primaryParts.push(...parts);
+          parts.forEach(part => { if (part.functionCall) functionCalls.push(part.functionCall); });
+
+          const { text, thought } = extractPartsText(parts);
+          if (thought) {
+            fullThoughts += thought;
+            callbacks.onThought?.(thought, fullThoughts);
+          }
+
+          let chunkText = text;
+          if (!chunkText) continue;
+          chunkText = separator + chunkText;
+          separator = '';
+          fullText += chunkText;
+          callbacks.onText(chunkText, fullText);
+        }
+      }
+
+      thinkingTokens += roundThinkingTokens;
+      // Each round is billed separately, and its prompt includes the earlier rounds
+      usage = addTokenUsage(usage, toTokenUsage(settings.model, roundUsage, startedAt));
+
+      if (signal?.aborted) return result(true);
+      if (functionCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+
+      if (isMultiCandidate) {
+        // The other candidates can't follow the tool results, so they are dropped. The session
+        // recorded the first candidate of every chunk, whichever it was, so it is rebuilt
+        // with the first candidate's reply only.
+        alternatives = [];
+        chatSession = createChatSession(history, settings, uploads, signal, tools, [
+          { role: 'user', parts: typeof message === 'string' ? [{ text: message }] : message },
+          { role: 'model', parts: primaryParts },
+        ]);
+      }
+
+      // Run the requested tools and answer each call with a functionResponse part
+      const settledCalls = await Promise.all(functionCalls.map((fc, i) => executeToolCall({
+        id: fc.id || `${Date.now()}-${round}-${i}`,
+        name: fc.name || '',
+        args: fc.args || {},
+        status: 'running',
+      }, callbacks.onToolCall)));
+
+      message = settledCalls.map((call, i) => ({
+        functionResponse: {
+          id: functionCalls[i].id,
+          name: call.name,
+          response: toolCallResponse(call),
+        }
+      }));
+    }
+
+    return result(false);
+  } catch (error) {
+    // Cancelling surfaces as an abort error from the SDK; keep what we already have
+    if (signal?.aborted) return result(true);
+    console.error("Gemini Chat Error:", error);
+    throw classifyError(error);
   }
 };
 
@@ -89,75 +460,110 @@ export const sendMessageToGemini = async (
  * Generates an image using the specialized image generation model.
  */
 export const generateImageWithGemini = async (
-  prompt: string,
-  aspectRatio: "1:1" | "16:9" | "9:16" = "1:1"
-): Promise<{ imageUrl: string, caption?: string }> => {
+  request: ImageGenerationRequest,
+  signal?: AbortSignal
+): Promise<GeneratedImage> => {
   
+  const startedAt = Date.now();
   try {
+    // Source images go first so the prompt reads as an instruction about them
     const response = await ai.models.generateContent({
       model: ModelType.IMAGE_GEN,
       contents: {
-        parts: [{ text: prompt }]
+        parts: [
+          ...(request.images || []).map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } })),
+          { text: request.prompt }
+        ]
       },
       config: {
         imageConfig: {
-          aspectRatio: aspectRatio,
-        }
+          aspectRatio: request.aspectRatio,
+        },
+        abortSignal: signal,
       }
     });
 
-    let imageUrl = "";
+    throwIfBlocked(response);
+    let image: GeneratedImage | null = null;
     let caption = "";
 
     // Iterate through parts to find image and optional text
-    if (response.candidates && response.candidates[0].content.parts) {
+    if (response.candidates && response.candidates[0].content?.parts) {
       for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        if (part.inlineData?.data && !image) {
+          image = { mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data };
         } else if (part.text) {
-          caption = part.text;
+          caption += part.text;
         }
       }
     }
 
-    if (!imageUrl) {
-      throw new Error("No image data received from the model.");
+    if (!image) {
+      throw new Error(caption || "No image data received from the model.");
     }
 
-    return { imageUrl, caption };
+    return {
+      ...image,
+      caption: caption || undefined,
+      usage: toTokenUsage(ModelType.IMAGE_GEN, response.usageMetadata, startedAt),
+    };
 
   } catch (error) {
     console.error("Image Generation Error:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
 
 /**
- * Generates speech from text.
+ * Generates speech from text. Returns 24kHz mono PCM16 without a header.
+ * The style hint and speaker names are given to the model as part of the prompt.
  */
-export const generateSpeech = async (text: string): Promise<ArrayBuffer> => {
+export const generateSpeech = async (text: string, options: SpeechOptions = {}): Promise<ArrayBuffer> => {
+  const { voiceName = 'Kore', style, speakers, signal } = options;
+  const isDialogue = speakers?.length === 2;
+
+  let prompt = text;
+  if (isDialogue) {
+    prompt = `Read this conversation between ${speakers[0].name} and ${speakers[1].name}${style ? ` in a ${style} tone` : ''}:\n${text}`;
+  } else if (style) {
+    prompt = `Read aloud in a ${style} voice:\n${text}`;
+  }
+
+  const startedAt = Date.now();
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
+      model: ModelType.TTS,
+      contents: [{ parts: [{ text: prompt }] }],
       config: {
         responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
+        speechConfig: isDialogue
+          ? {
+              multiSpeakerVoiceConfig: {
+                speakerVoiceConfigs: speakers.map(s => ({
+                  speaker: s.name,
+                  voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voiceName } },
+                })),
+              },
+            }
+          : {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName },
+              },
+            },
+        abortSignal: signal,
       },
     });
 
+    throwIfBlocked(response);
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) throw new Error("No audio data returned");
+    options.onUsage?.(toTokenUsage(ModelType.TTS, response.usageMetadata, startedAt));
 
     return base64ToArrayBuffer(base64Audio);
 
   } catch (error) {
     console.error("TTS Error:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
 
@@ -172,9 +578,9 @@ interface LiveConnectionCallbacks {
   onError: (event: ErrorEvent) => void;
 }
 
-export const connectToLiveSession = (callbacks: LiveConnectionCallbacks) => {
+export const connectToLiveSession = (callbacks: LiveConnectionCallbacks, config: LiveSessionConfig) => {
   return ai.live.connect({
-    model: LIVE_MODEL,
+    model: config.model,
     callbacks: {
       onopen: callbacks.onOpen,
       onmessage: callbacks.onMessage,
@@ -184,58 +590,118 @@ export const connectToLiveSession = (callbacks: LiveConnectionCallbacks) => {
     config: {
       responseModalities: [Modality.AUDIO],
       speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: LIVE_VOICE_NAME } },
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } },
+        ...(config.languageCode ? { languageCode: config.languageCode } : {}),
       },
-      systemInstruction: "You are Nova, a helpful AI assistant. You are having a voice conversation with the user. Keep your responses concise and natural for spoken conversation.",
+      // Captions for both sides of the call
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      systemInstruction: config.systemInstruction,
     },
   });
 };
 
-/* -------------------------------------------------------------------------- */
-/*                            AUDIO HELPERS                                   */
-/* -------------------------------------------------------------------------- */
-
 /**
- * Converts Float32 audio data (web audio api) to PCM16 (Gemini API requirement)
+ * Adapts the raw Live API session to the provider-neutral `LiveSession` interface.
+ * When `config.history` is not empty, the text conversation is prefilled as context for the call.
  */
-export function createPcmBlob(data: Float32Array): { data: string, mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // Clamp values
-    const s = Math.max(-1, Math.min(1, data[i]));
-    // Convert to PCM16
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+const connectLive = async (callbacks: LiveSessionCallbacks, config: LiveSessionConfig): Promise<LiveSession> => {
+  const session = await connectToLiveSession({
+    onOpen: callbacks.onOpen,
+    onMessage: (message) => {
+      const serverContent = message.serverContent;
+
+      const base64Audio = serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) {
+        callbacks.onAudio(base64Audio);
+      }
+
+      if (serverContent?.inputTranscription?.text) {
+        callbacks.onTranscript?.('user', serverContent.inputTranscription.text);
+      }
+      if (serverContent?.outputTranscription?.text) {
+        callbacks.onTranscript?.('model', serverContent.outputTranscription.text);
+      }
+
+      if (serverContent?.interrupted) {
+        callbacks.onInterrupted();
+      }
+
+      if (serverContent?.turnComplete) {
+        callbacks.onTurnComplete?.();
+      }
+
+      // Sent once per model turn; a call has no meaningful latency, so it is left at zero
+      if (message.usageMetadata) {
+        callbacks.onUsage?.(toTokenUsage(config.model, message.usageMetadata, Date.now()));
+      }
+    },
+    onClose: () => callbacks.onClose(),
+    onError: (event) => callbacks.onError(event),
+  }, config);
+
+  const turns = config.history
+    .filter(m => !m.isError && !m.isThinking && m.text)
+    .map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+  if (turns.length > 0) {
+    session.sendClientContent({ turns, turnComplete: false });
   }
-  
+
   return {
-    data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
+    sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+    endAudio: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+    close: () => session.close(),
   };
-}
+};
 
-/**
- * Manual Base64 to ArrayBuffer decoder
- */
-export function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes.buffer;
-}
+/* -------------------------------------------------------------------------- */
+/*                                 EMBEDDINGS                                 */
+/* -------------------------------------------------------------------------- */
 
 /**
- * Manual ArrayBuffer to Base64 encoder
+ * Embeds texts for retrieval, in batches of `EMBEDDING_BATCH_SIZE`.
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+export const embedTextsWithGemini = async (
+  texts: string[],
+  purpose: 'document' | 'query',
+  signal?: AbortSignal
+): Promise<Embeddings> => {
+  try {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const result = await ai.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        config: {
+          taskType: purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+          outputDimensionality: EMBEDDING_DIMENSIONS,
+          abortSignal: signal,
+        },
+      });
+      vectors.push(...(result.embeddings || []).map(e => e.values || []));
+    }
+    if (vectors.length !== texts.length) throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+    return { model: EMBEDDING_MODEL, vectors };
+  } catch (error) {
+    console.error("Embedding Error:", error);
+    throw classifyError(error);
   }
-  return btoa(binary);
-}
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 PROVIDER                                   */
+/* -------------------------------------------------------------------------- */
+
+export const geminiProvider: ModelProvider = {
+  id: ProviderId.GEMINI,
+  label: 'Google Gemini',
+  defaultModel: ModelType.FLASH,
+  listModels: async () => GEMINI_MODELS,
+  sendMessage: sendMessageToGemini,
+  streamMessage: streamMessageToGemini,
+  generateImage: generateImageWithGemini,
+  generateSpeech: generateSpeech,
+  connectLive: connectLive,
+  countTokens: countTokensWithGemini,
+  embedTexts: embedTextsWithGemini,
+};
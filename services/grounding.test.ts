@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { GroundingMetadata, UrlContextMetadata } from '@google/genai';
+import { OpenAIAnnotation, insertCitationMarkers, parseGeminiGrounding, parseOpenAIAnnotations } from './grounding';
+import geminiSearch from './__fixtures__/grounding/gemini-search.json';
+import openAICitations from './__fixtures__/grounding/openai-url-citations.json';
+
+// Recorded provider payloads, replayed offline. See the `description` of each fixture.
+const gemini = geminiSearch as unknown as { text: string, groundingMetadata: GroundingMetadata, urlContextMetadata: UrlContextMetadata };
+const openAI = openAICitations as unknown as { content: string, annotations: OpenAIAnnotation[] };
+
+const href = (i: number) => `#source-${i + 1}`;
+
+describe('parseGeminiGrounding', () => {
+  const grounding = parseGeminiGrounding(gemini.text, gemini.groundingMetadata, gemini.urlContextMetadata)!;
+
+  it('turns web chunks and retrieved URLs into sources, skipping other chunks, failures and duplicates', () => {
+    expect(grounding.sources).toEqual([
+      { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQH1', title: 'zugspitze.de', origin: 'search' },
+      { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQH2', title: 'de.wikipedia.org', origin: 'search' },
+      { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/AUZIYQH3', title: 'vertexaisearch.cloud.google.com', origin: 'search' },
+      { uri: 'https://www.zugspitze.de/de/Aktivitaeten/Seilbahnen', title: 'zugspitze.de', origin: 'url' },
+    ]);
+    expect(grounding.searchQueries).toEqual(['Zugspitze Höhe', 'Zugspitze Seilbahn']);
+  });
+
+  it('converts UTF-8 byte offsets to string offsets past multibyte characters', () => {
+    const spans = grounding.citations.map(c => gemini.text.slice(c.start, c.end));
+    expect(spans).toEqual([
+      'Die Zugspitze ist 2.962 m hoch – Deutschlands höchster Berg.',
+      'Deutschlands höchster Berg. Sie liegt an der Grenze zu Österreich.',
+      'Sie liegt an der Grenze zu Österreich.',
+      // Recorded with offsets that don't line up, so it is found by its text after the emoji
+      'Der Gipfel ist per Seilbahn erreichbar.',
+    ]);
+  });
+
+  it('keeps overlapping segments apart and merges supports of the same segment', () => {
+    const [first, overlapping, merged, last] = grounding.citations;
+    expect(first.sourceIndices).toEqual([0, 1]);
+    expect(overlapping.start).toBeLessThan(merged.start);
+    expect(overlapping.end).toBe(merged.end);
+    expect(overlapping.sourceIndices).toEqual([0]); // The retrieved-context chunk has no source
+    expect(merged.sourceIndices).toEqual([1, 0]);
+    expect(last.sourceIndices).toEqual([2]);
+  });
+
+  it('returns undefined for a reply without grounding', () => {
+    expect(parseGeminiGrounding(gemini.text)).toBeUndefined();
+    expect(parseGeminiGrounding(gemini.text, { groundingChunks: [], groundingSupports: [] })).toBeUndefined();
+  });
+});
+
+describe('parseOpenAIAnnotations', () => {
+  const grounding = parseOpenAIAnnotations(openAI.content, openAI.annotations)!;
+
+  it('makes one source per cited URL and ignores other annotation types', () => {
+    expect(grounding.sources.map(s => s.title)).toEqual([
+      'Announcing Rust 1.85.0',
+      'Rust 2024 - The Rust Edition Guide',
+      'github.com',
+      'example.com',
+    ]);
+    expect(grounding.searchQueries).toEqual([]);
+  });
+
+  it('keeps overlapping spans, clamps spans running past the text and drops empty ones', () => {
+    expect(grounding.citations.map(c => [openAI.content.slice(c.start, c.end), c.sourceIndices])).toEqual([
+      ['Rust 1.85 stabilized async closures', [0]],
+      ['Rust 1.85 stabilized async closures [1]. The 2024 edition shipped in the same release', [0]],
+      ['The 2024 edition shipped in the same release', [1]],
+      [openAI.content.slice(120), [2]],
+    ]);
+  });
+});
+
+describe('insertCitationMarkers', () => {
+  it('places one group of markers where overlapping citations end', () => {
+    const grounding = parseGeminiGrounding(gemini.text, gemini.groundingMetadata, gemini.urlContextMetadata)!;
+    expect(insertCitationMarkers(gemini.text, grounding.citations, href)).toBe(
+      'Die Zugspitze ist 2.962 m hoch – Deutschlands höchster Berg.[1](#source-1)[2](#source-2) '
+      + 'Sie liegt an der Grenze zu Österreich.[1](#source-1)[2](#source-2) '
+      + '🏔️ Der Gipfel ist per Seilbahn erreichbar.[3](#source-3)'
+    );
+  });
+
+  it('marks OpenAI citations at their string offsets', () => {
+    const grounding = parseOpenAIAnnotations(openAI.content, openAI.annotations)!;
+    const marked = insertCitationMarkers(openAI.content, grounding.citations, href);
+    expect(marked).toContain('async closures[1](#source-1) [1].');
+    expect(marked).toContain('same release[1](#source-1)[2](#source-2), alongside');
+    expect(marked.endsWith('for details.[3](#source-3)')).toBe(true);
+  });
+
+  it('leaves citations ending inside fenced code unmarked', () => {
+    const text = 'Run this:\n```sh\nnpm test\n```\nDone.';
+    const citations = [
+      { start: 0, end: text.indexOf('npm test') + 8, sourceIndices: [0] },
+      { start: 0, end: text.length, sourceIndices: [1] },
+    ];
+    expect(insertCitationMarkers(text, citations, href)).toBe(`${text}[2](#source-2)`);
+  });
+});
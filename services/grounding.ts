@@ -0,0 +1,190 @@
+import { GroundingMetadata, UrlContextMetadata, UrlRetrievalStatus } from "@google/genai";
+import { ChatMessage, Citation, Grounding, GroundingSource } from "../types";
+
+/**
+ * Turns the grounding metadata providers attach to a reply into sources and citations,
+ * and places citation markers in the reply's Markdown. Everything here is a pure function
+ * of the reply text and the raw payload, so recorded payloads can be replayed offline.
+ */
+
+/**
+ * An entry of `annotations` on an OpenAI-style chat completion message, as returned by
+ * servers with web search. Offsets are string indices into the message content.
+ */
+export interface OpenAIAnnotation {
+  type: string;
+  url_citation?: {
+    url: string;
+    title?: string;
+    start_index: number;
+    end_index: number;
+  };
+}
+
+const hostname = (uri: string): string => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+/**
+ * Merges citations of the same span and drops the ones without sources.
+ */
+const mergeCitations = (citations: Citation[]): Citation[] => {
+  const bySpan = new Map<string, Citation>();
+  for (const citation of citations) {
+    if (citation.sourceIndices.length === 0) continue;
+    const key = `${citation.start}:${citation.end}`;
+    const existing = bySpan.get(key);
+    bySpan.set(key, existing
+      ? { ...existing, sourceIndices: [...new Set([...existing.sourceIndices, ...citation.sourceIndices])] }
+      : citation);
+  }
+  return [...bySpan.values()].sort((a, b) => a.start - b.start);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   GEMINI                                   */
+/* -------------------------------------------------------------------------- */
+
+interface SegmentLike {
+  startIndex?: number;
+  endIndex?: number;
+  text?: string;
+}
+
+/**
+ * Finds a support's segment in the reply. Gemini measures offsets in UTF-8 bytes; when
+ * they don't line up with the segment's own text (e.g. after thought parts), the text is
+ * looked up instead.
+ */
+const resolveSegment = (text: string, bytes: Uint8Array, segment: SegmentLike): [number, number] | null => {
+  const decoder = new TextDecoder();
+  if (segment.endIndex !== undefined) {
+    const start = decoder.decode(bytes.subarray(0, segment.startIndex ?? 0)).length;
+    const end = decoder.decode(bytes.subarray(0, segment.endIndex)).length;
+    if (!segment.text || text.slice(start, end) === segment.text) return [start, end];
+  }
+  if (segment.text) {
+    const at = text.indexOf(segment.text);
+    if (at >= 0) return [at, at + segment.text.length];
+  }
+  return null;
+};
+
+/**
+ * Parses a Gemini candidate's `groundingMetadata` (Google Search) and `urlContextMetadata`
+ * (URL context) for the reply `text`. Returns undefined when the reply wasn't grounded.
+ */
+export const parseGeminiGrounding = (
+  text: string,
+  metadata?: GroundingMetadata,
+  urlContext?: UrlContextMetadata
+): Grounding | undefined => {
+  const sources: GroundingSource[] = [];
+  // Source index for each grounding chunk; chunks that aren't web pages have none
+  const chunkSources = (metadata?.groundingChunks || []).map(chunk => {
+    if (!chunk.web?.uri) return -1;
+    sources.push({ uri: chunk.web.uri, title: chunk.web.title || hostname(chunk.web.uri), origin: 'search' });
+    return sources.length - 1;
+  });
+
+  for (const entry of urlContext?.urlMetadata || []) {
+    if (!entry.retrievedUrl || entry.urlRetrievalStatus !== UrlRetrievalStatus.URL_RETRIEVAL_STATUS_SUCCESS) continue;
+    if (sources.some(s => s.uri === entry.retrievedUrl)) continue;
+    sources.push({ uri: entry.retrievedUrl, title: hostname(entry.retrievedUrl), origin: 'url' });
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  const citations = (metadata?.groundingSupports || []).flatMap(support => {
+    const span = support.segment ? resolveSegment(text, bytes, support.segment) : null;
+    if (!span) return [];
+    const sourceIndices = (support.groundingChunkIndices || [])
+      .map(i => chunkSources[i] ?? -1)
+      .filter(i => i >= 0);
+    return [{ start: span[0], end: span[1], sourceIndices }];
+  });
+
+  const searchQueries = metadata?.webSearchQueries || [];
+  if (sources.length === 0 && searchQueries.length === 0) return undefined;
+  return { sources, citations: mergeCitations(citations), searchQueries };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              OPENAI-COMPATIBLE                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parses `url_citation` annotations. Each cited URL becomes one source, however often
+ * it is cited. Returns undefined when there are none.
+ */
+export const parseOpenAIAnnotations = (text: string, annotations: OpenAIAnnotation[]): Grounding | undefined => {
+  const sources: GroundingSource[] = [];
+  const citations: Citation[] = [];
+
+  for (const annotation of annotations) {
+    const citation = annotation.url_citation;
+    if (annotation.type !== 'url_citation' || !citation?.url) continue;
+    let index = sources.findIndex(s => s.uri === citation.url);
+    if (index < 0) {
+      sources.push({ uri: citation.url, title: citation.title || hostname(citation.url), origin: 'search' });
+      index = sources.length - 1;
+    }
+    const start = Math.max(0, citation.start_index);
+    const end = Math.min(text.length, citation.end_index);
+    if (end > start) citations.push({ start, end, sourceIndices: [index] });
+  }
+
+  if (sources.length === 0) return undefined;
+  return { sources, citations: mergeCitations(citations), searchQueries: [] };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  RENDERING                                 */
+/* -------------------------------------------------------------------------- */
+
+// The message fields a grounding result is stored in
+export const groundingFields = (grounding?: Grounding): Pick<ChatMessage, 'sources' | 'citations' | 'searchQueries'> => ({
+  sources: grounding?.sources.length ? grounding.sources : undefined,
+  citations: grounding?.citations.length ? grounding.citations : undefined,
+  searchQueries: grounding?.searchQueries.length ? grounding.searchQueries : undefined,
+});
+
+/**
+ * Adds a Markdown link after each cited span, numbered from 1 in source order, e.g.
+ * `[2](#source-…)`. Spans ending inside a fenced code block are left unmarked, since the
+ * link would show up as code.
+ */
+export const insertCitationMarkers = (
+  text: string,
+  citations: Citation[],
+  sourceHref: (sourceIndex: number) => string
+): string => {
+  const fences = [...text.matchAll(/```[\s\S]*?(?:```|$)/g)].map(m => [m.index!, m.index! + m[0].length]);
+  const isInCode = (offset: number) => fences.some(([start, end]) => offset > start && offset < end);
+
+  // Citations sharing an end get one group of markers
+  const markersAt = new Map<number, Set<number>>();
+  for (const citation of citations) {
+    if (citation.end > text.length || isInCode(citation.end)) continue;
+    const markers = markersAt.get(citation.end) ?? new Set<number>();
+    citation.sourceIndices.forEach(i => markers.add(i));
+    markersAt.set(citation.end, markers);
+  }
+
+  let result = text;
+  [...markersAt.entries()]
+    .sort(([a], [b]) => b - a)
+    .forEach(([offset, indices]) => {
+      const links = [...indices].sort((a, b) => a - b).map(i => `[${i + 1}](${sourceHref(i)})`).join('');
+      result = result.slice(0, offset) + links + result.slice(offset);
+    });
+  return result;
+};
+
+// Element id of a source in a message's source list, which citation markers link to
+export const sourceAnchorId = (messageId: string, sourceIndex: number): string => {
+  return `source-${messageId}-${sourceIndex + 1}`;
+};
@@ -0,0 +1,398 @@
+import { AppSettings, KnowledgeChunk, KnowledgeDocument, KnowledgeReference, ModelProvider } from "../types";
+import {
+  KNOWLEDGE_CHUNK_OVERLAP, KNOWLEDGE_CHUNK_SIZE, KNOWLEDGE_EMBEDDINGS_STORAGE_KEY, KNOWLEDGE_TOP_K,
+  MAX_KNOWLEDGE_FILE_BYTES
+} from "../constants";
+import { KNOWLEDGE_CHUNKS_STORE, KNOWLEDGE_DOCUMENTS_STORE, openDatabase, promisifyRequest } from "./conversationStore";
+import { formatFileSize, getAttachmentKind } from "./attachments";
+import { getProvider } from "./providers";
+import { classifyError } from "./errors";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+/**
+ * The knowledge library: files the user adds once and that are searched for every prompt
+ * in conversations that use it. Documents are split into chunks and indexed locally for
+ * BM25, so retrieval works offline. When embeddings are turned on and the selected
+ * provider can embed, chunks and queries are embedded too and the two rankings are fused.
+ */
+
+// Stored documents carry their extracted text, which the library list doesn't need
+interface StoredDocument extends KnowledgeDocument {
+  text: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 EXTRACTION                                 */
+/* -------------------------------------------------------------------------- */
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  // Bundled from the same package, so it always matches the library and loads offline
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const content = await (await pdf.getPage(i)).getTextContent();
+      pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+    }
+    return pages.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * The text of a library file. Throws a display message for files that can't be indexed.
+ */
+export const extractDocumentText = async (file: File): Promise<string> => {
+  const kind = getAttachmentKind({ mimeType: file.type, name: file.name });
+  if (kind !== 'text' && kind !== 'pdf') throw new Error(`${file.name} isn't a text, Markdown, PDF or code file.`);
+  if (file.size > MAX_KNOWLEDGE_FILE_BYTES) throw new Error(`${file.name} is larger than ${formatFileSize(MAX_KNOWLEDGE_FILE_BYTES)}.`);
+
+  const text = (kind === 'pdf' ? await extractPdfText(file) : await file.text()).replace(/\r\n?/g, '\n');
+  // Scanned PDFs have no text layer
+  if (!text.trim()) throw new Error(`${file.name} has no text to index.`);
+  return text;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  CHUNKING                                  */
+/* -------------------------------------------------------------------------- */
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Preferred places to end a chunk, best first
+const CHUNK_BREAKS = ['\n\n', '\n', '. ', ' '];
+
+/**
+ * Splits text into spans of about `KNOWLEDGE_CHUNK_SIZE` characters, ending at a paragraph,
+ * line, sentence or word where possible. Each span starts `KNOWLEDGE_CHUNK_OVERLAP`
+ * characters before the previous one ended, at a word boundary.
+ */
+export const chunkText = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + KNOWLEDGE_CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const earliest = start + KNOWLEDGE_CHUNK_SIZE / 2;
+      for (const separator of CHUNK_BREAKS) {
+        const at = text.lastIndexOf(separator, end - separator.length);
+        if (at >= earliest) {
+          end = at + separator.length;
+          break;
+        }
+      }
+    }
+    if (text.slice(start, end).trim()) spans.push({ start, end });
+    if (end >= text.length) break;
+
+    const overlapStart = end - KNOWLEDGE_CHUNK_OVERLAP;
+    const wordBreak = /\s/.exec(text.slice(overlapStart, end));
+    start = wordBreak ? overlapStart + wordBreak.index + 1 : end;
+  }
+  return spans;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    BM25                                    */
+/* -------------------------------------------------------------------------- */
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set(`
+  a an and are as at be but by can do does for from had has have how i if in into is it its
+  me my no not of on or our so than that the their them then there these they this to was we
+  were what when where which who why will with you your`.trim().split(/\s+/));
+
+/**
+ * Lowercased search terms, without stop words. Identifiers like `parseConfig` or
+ * `max_retries` also yield their parts, so code matches plain-word queries.
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(/[\p{L}\p{N}_]+/gu)) {
+    const parts = word.split(/_+|(?<=\p{Ll})(?=\p{Lu})/u).filter(Boolean);
+    for (const term of parts.length > 1 ? [word, ...parts] : [word]) {
+      const lower = term.toLowerCase();
+      if (lower.length > 1 && !STOP_WORDS.has(lower)) terms.push(lower);
+    }
+  }
+  return terms;
+};
+
+const termFrequencies = (terms: string[]): Record<string, number> => {
+  const frequencies: Record<string, number> = {};
+  for (const term of terms) frequencies[term] = (frequencies[term] ?? 0) + 1;
+  return frequencies;
+};
+
+interface LibraryIndex {
+  documents: Map<string, KnowledgeDocument>;
+  chunks: KnowledgeChunk[];
+  documentFrequency: Map<string, number>; // Chunks containing each term
+  averageLength: number;
+}
+
+// Loaded on the first query and dropped whenever the library changes
+let indexPromise: Promise<LibraryIndex> | null = null;
+
+const loadIndex = (): Promise<LibraryIndex> => {
+  if (!indexPromise) {
+    indexPromise = (async () => {
+      const db = await openDatabase();
+      const tx = db.transaction([KNOWLEDGE_DOCUMENTS_STORE, KNOWLEDGE_CHUNKS_STORE], 'readonly');
+      const [documents, chunks] = await Promise.all([
+        promisifyRequest<StoredDocument[]>(tx.objectStore(KNOWLEDGE_DOCUMENTS_STORE).getAll()),
+        promisifyRequest<KnowledgeChunk[]>(tx.objectStore(KNOWLEDGE_CHUNKS_STORE).getAll()),
+      ]);
+
+      const documentFrequency = new Map<string, number>();
+      for (const chunk of chunks) {
+        for (const term of Object.keys(chunk.terms)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+      return {
+        documents: new Map(documents.map(({ text: _text, ...doc }) => [doc.id, doc])),
+        chunks,
+        documentFrequency,
+        averageLength: chunks.reduce((sum, c) => sum + c.length, 0) / (chunks.length || 1),
+      };
+    })();
+    indexPromise.catch(() => { indexPromise = null; });
+  }
+  return indexPromise;
+};
+
+const bm25Scores = (index: LibraryIndex, queryTerms: string[]): Map<KnowledgeChunk, number> => {
+  const scores = new Map<KnowledgeChunk, number>();
+  const total = index.chunks.length;
+  for (const term of new Set(queryTerms)) {
+    const df = index.documentFrequency.get(term);
+    if (!df) continue;
+    const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+    for (const chunk of index.chunks) {
+      const tf = chunk.terms[term];
+      if (!tf) continue;
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / index.averageLength);
+      scores.set(chunk, (scores.get(chunk) ?? 0) + idf * tf * (BM25_K1 + 1) / (tf + norm));
+    }
+  }
+  return scores;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 EMBEDDINGS                                 */
+/* -------------------------------------------------------------------------- */
+
+// Embedding sends the library's text to the provider, so it is opt-in
+export const loadEmbeddingsEnabled = (): boolean => {
+  return localStorage.getItem(KNOWLEDGE_EMBEDDINGS_STORAGE_KEY) === 'true';
+};
+
+export const saveEmbeddingsEnabled = (enabled: boolean) => {
+  localStorage.setItem(KNOWLEDGE_EMBEDDINGS_STORAGE_KEY, String(enabled));
+};
+
+/**
+ * The selected provider's embedding function. There is no fallback to Gemini here, as
+ * that would send text elsewhere than the user chose.
+ */
+const embedderFor = (settings: AppSettings): ModelProvider['embedTexts'] => {
+  return getProvider(settings.provider).embedTexts;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * Chunks ranked by similarity to the query, for the chunks embedded with the model the
+ * query was embedded with. Empty, without contacting the provider, while embeddings are
+ * turned off or the provider can't embed; also empty when it can't be reached.
+ */
+const semanticRanking = async (index: LibraryIndex, query: string, settings: AppSettings, signal?: AbortSignal): Promise<KnowledgeChunk[]> => {
+  const embedTexts = embedderFor(settings);
+  if (!loadEmbeddingsEnabled() || !embedTexts || !index.chunks.some(c => c.embedding)) return [];
+  try {
+    const { model, vectors } = await embedTexts([query], 'query', signal);
+    return index.chunks
+      .filter(c => c.embedding && index.documents.get(c.documentId)?.embeddingModel === model)
+      .map(chunk => ({ chunk, similarity: cosineSimilarity(vectors[0], chunk.embedding!) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, KNOWLEDGE_TOP_K * 4)
+      .map(({ chunk }) => chunk);
+  } catch (err) {
+    console.warn("Semantic search unavailable; using keyword search only", err);
+    return [];
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  LIBRARY                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Every document in the library, most recently added first.
+ */
+export const loadKnowledgeDocuments = async (): Promise<KnowledgeDocument[]> => {
+  const { documents } = await loadIndex();
+  return [...documents.values()].sort((a, b) => b.addedAt - a.addedAt);
+};
+
+/**
+ * A document's extracted text, or undefined once it has been removed.
+ */
+export const loadKnowledgeDocumentText = async (id: string): Promise<string | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(KNOWLEDGE_DOCUMENTS_STORE, 'readonly').objectStore(KNOWLEDGE_DOCUMENTS_STORE);
+  const stored = await promisifyRequest<StoredDocument | undefined>(store.get(id));
+  return stored?.text;
+};
+
+export interface AddDocumentResult {
+  document: KnowledgeDocument;
+  embeddingError?: string; // Why the document is only searchable by keywords
+}
+
+/**
+ * Extracts, chunks and indexes a file and stores it in the library. With `embed`, the
+ * chunks are embedded as well; if that fails, the document is still added for keyword search.
+ */
+export const addKnowledgeDocument = async (
+  file: File,
+  settings: AppSettings,
+  embed: boolean,
+  signal?: AbortSignal
+): Promise<AddDocumentResult> => {
+  const text = await extractDocumentText(file);
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  const chunks: KnowledgeChunk[] = chunkText(text).map(({ start, end }, index) => {
+    const content = text.slice(start, end);
+    const terms = tokenize(content);
+    return { id: `${id}:${index}`, documentId: id, index, text: content, start, end, terms: termFrequencies(terms), length: terms.length };
+  });
+
+  let embeddingModel: string | undefined;
+  let embeddingError: string | undefined;
+  const embedTexts = embedderFor(settings);
+  if (embed && !embedTexts) {
+    embeddingError = "the selected provider can't embed text.";
+  } else if (embed && embedTexts) {
+    try {
+      const { model, vectors } = await embedTexts(chunks.map(c => c.text), 'document', signal);
+      chunks.forEach((chunk, i) => { chunk.embedding = vectors[i]; });
+      embeddingModel = model;
+    } catch (err) {
+      embeddingError = classifyError(err).message;
+    }
+  }
+
+  const document: KnowledgeDocument = {
+    id,
+    name: file.name,
+    mimeType: file.type || 'text/plain',
+    size: file.size,
+    addedAt: Date.now(),
+    chunkCount: chunks.length,
+    embeddingModel,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([KNOWLEDGE_DOCUMENTS_STORE, KNOWLEDGE_CHUNKS_STORE], 'readwrite');
+  const stored: StoredDocument = { ...document, text };
+  tx.objectStore(KNOWLEDGE_DOCUMENTS_STORE).put(stored);
+  const chunkStore = tx.objectStore(KNOWLEDGE_CHUNKS_STORE);
+  chunks.forEach(chunk => chunkStore.put(chunk));
+  await transactionDone(tx);
+
+  indexPromise = null;
+  return { document, embeddingError };
+};
+
+/**
+ * Removes a document and its chunks. Replies that used its passages keep their copies.
+ */
+export const deleteKnowledgeDocument = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([KNOWLEDGE_DOCUMENTS_STORE, KNOWLEDGE_CHUNKS_STORE], 'readwrite');
+  tx.objectStore(KNOWLEDGE_DOCUMENTS_STORE).delete(id);
+  const chunkStore = tx.objectStore(KNOWLEDGE_CHUNKS_STORE);
+  const chunkIds = await promisifyRequest(chunkStore.index('documentId').getAllKeys(id));
+  chunkIds.forEach(key => chunkStore.delete(key));
+  await transactionDone(tx);
+
+  indexPromise = null;
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                 RETRIEVAL                                  */
+/* -------------------------------------------------------------------------- */
+
+// Reciprocal rank fusion constant; larger values flatten the difference between ranks
+const RRF_K = 60;
+
+/**
+ * The `KNOWLEDGE_TOP_K` passages that best match the query. Keyword and semantic rankings
+ * are merged by reciprocal rank, as their scores aren't comparable.
+ */
+export const retrieveKnowledge = async (query: string, settings: AppSettings, signal?: AbortSignal): Promise<KnowledgeReference[]> => {
+  const index = await loadIndex();
+  if (index.chunks.length === 0 || !query.trim()) return [];
+
+  const lexical = [...bm25Scores(index, tokenize(query)).entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, KNOWLEDGE_TOP_K * 4)
+    .map(([chunk]) => chunk);
+  const semantic = await semanticRanking(index, query, settings, signal);
+
+  const fused = new Map<KnowledgeChunk, number>();
+  for (const ranking of [lexical, semantic]) {
+    ranking.forEach((chunk, rank) => fused.set(chunk, (fused.get(chunk) ?? 0) + 1 / (RRF_K + rank + 1)));
+  }
+
+  return [...fused.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, KNOWLEDGE_TOP_K)
+    .map(([chunk]) => ({
+      documentId: chunk.documentId,
+      documentName: index.documents.get(chunk.documentId)?.name ?? 'Document',
+      chunkId: chunk.id,
+      text: chunk.text,
+      start: chunk.start,
+      end: chunk.end,
+    }));
+};
+
+/**
+ * The prompt actually sent for a message answered with library passages: the passages,
+ * numbered to match the list shown under the reply, then the message itself.
+ */
+export const knowledgePrompt = (message: string, references: KnowledgeReference[]): string => {
+  if (references.length === 0) return message;
+  const passages = references.map((ref, i) => `[${i + 1}] ${ref.documentName}\n"""\n${ref.text.trim()}\n"""`);
+  return [
+    "Passages from the user's knowledge library that may help with the message below. Use the relevant ones and cite them by number, like [1]; ignore the rest.",
+    ...passages,
+    `Message:\n${message}`,
+  ].join('\n\n');
+};
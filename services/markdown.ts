@@ -0,0 +1,84 @@
+import React from 'react';
+import { Options, defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import type { Mermaid } from 'mermaid';
+
+/**
+ * The Markdown pipeline shared by the chat and the HTML export, so a transcript looks the
+ * same in both: GitHub-flavored Markdown, KaTeX math (`$…$` inline, `$$…$$` as a block)
+ * and Mermaid diagrams from ```mermaid fences.
+ */
+
+export const REMARK_PLUGINS: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+export const REHYPE_PLUGINS: Options['rehypePlugins'] = [rehypeKatex];
+
+// Older conversations stored generated images inline as data URIs, which the default transform strips
+export const urlTransform = (url: string) => url.startsWith('data:image/') ? url : defaultUrlTransform(url);
+
+/**
+ * The code and language tag of a fenced block, from the children ReactMarkdown passes to
+ * a `pre` renderer. Returns null when the block isn't plain fenced code.
+ */
+export const fencedCode = (children: React.ReactNode): { code: string, language: string } | null => {
+  const code = React.Children.toArray(children)[0];
+  if (!React.isValidElement<{ className?: string, children?: React.ReactNode }>(code)) return null;
+  return {
+    code: String(code.props.children ?? '').replace(/\n$/, ''),
+    language: /language-(\S+)/.exec(code.props.className || '')?.[1] ?? '',
+  };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   MERMAID                                  */
+/* -------------------------------------------------------------------------- */
+
+// Mermaid is large, so it is only loaded once a diagram shows up
+let mermaidPromise: Promise<Mermaid> | null = null;
+let diagramCount = 0;
+
+const loadMermaid = (): Promise<Mermaid> => {
+  if (!mermaidPromise) {
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      // Strict mode escapes labels and disables click handlers, as diagrams come from the model
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'dark', suppressErrorRendering: true });
+      return mermaid;
+    });
+    mermaidPromise.catch(() => { mermaidPromise = null; });
+  }
+  return mermaidPromise;
+};
+
+/**
+ * Renders a Mermaid diagram to SVG markup. Throws with Mermaid's message when the source
+ * doesn't parse.
+ */
+export const renderMermaid = async (source: string): Promise<string> => {
+  const mermaid = await loadMermaid();
+  const { svg } = await mermaid.render(`mermaid-diagram-${++diagramCount}`, source);
+  return svg;
+};
+
+/**
+ * Sources of the ```mermaid fences in a Markdown text, in order.
+ */
+export const extractMermaidSources = (text: string): string[] => {
+  return [...text.matchAll(/^ {0,3}(`{3,}|~{3,})[ \t]*mermaid[ \t]*\n([\s\S]*?)\n {0,3}\1[ \t]*$/gm)].map(m => m[2]);
+};
+
+/**
+ * Renders diagrams ahead of time, for output that is rendered to static markup. Maps each
+ * source to its SVG; sources that fail to render are left out, so they fall back to code.
+ */
+export const renderMermaidDiagrams = async (sources: string[]): Promise<Record<string, string>> => {
+  const diagrams: Record<string, string> = {};
+  for (const source of new Set(sources)) {
+    try {
+      diagrams[source] = await renderMermaid(source);
+    } catch {
+      // Left out on purpose
+    }
+  }
+  return diagrams;
+};
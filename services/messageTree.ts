@@ -0,0 +1,107 @@
+import { ChatMessage, Conversation } from "../types";
+
+/**
+ * Conversations are stored as a tree: every message points at its parent, and editing or
+ * regenerating adds a sibling instead of overwriting. `selectedChildIds` remembers which
+ * sibling is shown under each parent; the visible thread is the path that follows them.
+ */
+
+// Key used in `selectedChildIds` for top-level messages, which have no parent
+const ROOT_KEY = '__root__';
+
+const parentKey = (parentId: string | null | undefined): string => parentId ?? ROOT_KEY;
+
+export const getChildren = (messages: ChatMessage[], parentId: string | null): ChatMessage[] => {
+  return messages.filter(m => (m.parentId ?? null) === parentId);
+};
+
+/**
+ * Follows the selected branch from the root. Parents without a selection show their newest child.
+ */
+export const getActivePath = (conversation: Conversation): ChatMessage[] => {
+  const path: ChatMessage[] = [];
+  let parentId: string | null = null;
+
+  while (true) {
+    const children = getChildren(conversation.messages, parentId);
+    if (children.length === 0) break;
+
+    const selectedId: string | undefined = conversation.selectedChildIds?.[parentKey(parentId)];
+    const next: ChatMessage = children.find(c => c.id === selectedId) || children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+
+  return path;
+};
+
+/**
+ * Returns the path up to (but excluding) the given message: the history the model saw for it.
+ */
+export const getPathBefore = (conversation: Conversation, messageId: string): ChatMessage[] => {
+  const byId = new Map(conversation.messages.map(m => [m.id, m]));
+  const path: ChatMessage[] = [];
+  let current = byId.get(messageId);
+
+  while (current?.parentId) {
+    const parent = byId.get(current.parentId);
+    if (!parent) break;
+    path.unshift(parent);
+    current = parent;
+  }
+
+  return path;
+};
+
+export const getSiblings = (conversation: Conversation, message: ChatMessage): ChatMessage[] => {
+  return getChildren(conversation.messages, message.parentId ?? null);
+};
+
+/**
+ * Adds a message under its parent and makes it the visible branch.
+ */
+export const appendMessage = (conversation: Conversation, message: ChatMessage): Conversation => ({
+  ...conversation,
+  messages: [...conversation.messages, message],
+  selectedChildIds: { ...conversation.selectedChildIds, [parentKey(message.parentId)]: message.id },
+  updatedAt: Date.now(),
+});
+
+/**
+ * Shows a different sibling of the given message.
+ */
+export const selectSibling = (conversation: Conversation, message: ChatMessage, offset: number): Conversation => {
+  const siblings = getSiblings(conversation, message);
+  const index = siblings.findIndex(s => s.id === message.id);
+  const target = siblings[index + offset];
+  if (!target) return conversation;
+
+  return {
+    ...conversation,
+    selectedChildIds: { ...conversation.selectedChildIds, [parentKey(message.parentId)]: target.id },
+  };
+};
+
+/**
+ * Selects every branch leading to the given message so it is part of the visible thread.
+ */
+export const revealMessage = (conversation: Conversation, messageId: string): Conversation => {
+  const byId = new Map(conversation.messages.map(m => [m.id, m]));
+  const selectedChildIds = { ...conversation.selectedChildIds };
+  let current = byId.get(messageId);
+
+  while (current) {
+    selectedChildIds[parentKey(current.parentId)] = current.id;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return { ...conversation, selectedChildIds };
+};
+
+/**
+ * Conversations saved before branching existed are flat lists; chain them into a single branch.
+ */
+export const migrateToTree = (messages: ChatMessage[]): ChatMessage[] => {
+  if (messages.every(m => m.parentId !== undefined)) return messages;
+  return messages.map((m, i) => m.parentId !== undefined ? m : { ...m, parentId: i > 0 ? messages[i - 1].id : null });
+};
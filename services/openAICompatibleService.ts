@@ -0,0 +1,358 @@
+import {
+  AppSettings, Attachment, ChatMessage, ChatStreamCallbacks, ChatStreamResult,
+  MessageRole, ModelCapability, ModelInfo, ModelProvider, ProviderId, StructuredOutputInfo
+} from "../types";
+import { MAX_TOOL_ROUNDS } from "../constants";
+import { OpenAIAnnotation, parseOpenAIAnnotations } from "./grounding";
+import { executeToolCall, getEnabledTools, toolCallResponse } from "./tools";
+import { attachmentLabel, getAttachmentKind, textAttachmentPrompt } from "./attachments";
+import { ServiceError, classifyError, errorKindForStatus } from "./errors";
+import { toSamplingParams } from "./sampling";
+
+/**
+ * Client for servers that speak the OpenAI Chat Completions protocol,
+ * e.g. Ollama, llama.cpp's server, LM Studio or vLLM.
+ */
+
+type OpenAIContentPart =
+  | { type: 'text', text: string }
+  | { type: 'image_url', image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string, arguments: string };
+}
+
+type OpenAIChatMessage =
+  | { role: 'system' | 'user', content: string | OpenAIContentPart[] }
+  | { role: 'assistant', content: string | OpenAIContentPart[] | null, tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool', tool_call_id: string, content: string };
+
+const buildHeaders = (settings: AppSettings): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // Local servers usually don't need a key, hosted ones do
+  if (settings.openAIApiKey) {
+    headers['Authorization'] = `Bearer ${settings.openAIApiKey}`;
+  }
+  return headers;
+};
+
+const endpoint = (settings: AppSettings, path: string): string => {
+  return `${settings.openAIBaseUrl.replace(/\/+$/, '')}${path}`;
+};
+
+/**
+ * Images are sent as data URLs and text files as prompt text. The protocol has no common
+ * way to send PDFs, audio or video, so the model is only told that they were attached.
+ */
+const toAttachmentContent = (attachment: Attachment, index: number): OpenAIContentPart => {
+  switch (getAttachmentKind(attachment)) {
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } };
+    case 'text':
+      return { type: 'text', text: textAttachmentPrompt(attachment, index) };
+    default:
+      return { type: 'text', text: `[Attached ${attachmentLabel(attachment, index)} (${attachment.mimeType}), which this server can't read]` };
+  }
+};
+
+const toOpenAIContent = (text: string, attachments?: Attachment[]): string | OpenAIContentPart[] => {
+  if (!attachments || attachments.length === 0) return text;
+  return [
+    ...attachments.map(toAttachmentContent),
+    { type: 'text' as const, text },
+  ];
+};
+
+/**
+ * Converts the local history plus the new turn into a Chat Completions message list.
+ */
+const buildMessages = (
+  history: ChatMessage[],
+  currentMessage: string,
+  attachments: Attachment[],
+  settings: AppSettings
+): OpenAIChatMessage[] => {
+  const messages: OpenAIChatMessage[] = [];
+  if (settings.systemInstruction) {
+    messages.push({ role: 'system', content: settings.systemInstruction });
+  }
+
+  // We filter out local-only states like error messages or thinking placeholders
+  history
+    .filter(m => !m.isError && !m.isThinking)
+    .forEach(m => messages.push({
+      role: m.role === MessageRole.USER ? 'user' : 'assistant',
+      // Only user turns may carry attachments; generated images stay local
+      content: toOpenAIContent(m.text, m.role === MessageRole.USER ? m.attachments : undefined),
+    }));
+
+  messages.push({ role: 'user', content: toOpenAIContent(currentMessage, attachments) });
+  return messages;
+};
+
+/**
+ * Generation parameters under their Chat Completions names. `top_k` isn't part of the
+ * protocol, but Ollama, llama.cpp and vLLM accept it.
+ */
+const samplingFields = (settings: AppSettings, withCandidates: boolean) => {
+  const params = toSamplingParams(settings);
+  return {
+    temperature: params.temperature,
+    top_p: params.topP,
+    top_k: params.topK,
+    max_tokens: params.maxOutputTokens,
+    stop: params.stopSequences,
+    seed: params.seed,
+    n: withCandidates && params.candidateCount > 1 ? params.candidateCount : undefined,
+  };
+};
+
+// Asks for JSON following the schema. Schema names may only use letters, digits, _ and -.
+const responseFormat = (structuredOutput: StructuredOutputInfo) => ({
+  type: 'json_schema',
+  json_schema: {
+    name: structuredOutput.name.replace(/[^a-zA-Z0-9_-]+/g, '_').slice(0, 64) || 'response',
+    schema: structuredOutput.schema,
+  },
+});
+
+const ensureOk = async (response: Response): Promise<void> => {
+  if (response.ok) return;
+  const body = await response.text().catch(() => '');
+  const detail = `Request failed (${response.status}): ${body || response.statusText}`;
+  const kind = errorKindForStatus(response.status);
+  if (!kind) throw new Error(detail);
+  // Retry-After is given in seconds by most servers
+  const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+  throw new ServiceError(kind, detail, Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+};
+
+/**
+ * Lists the models the server exposes. The protocol does not describe capabilities,
+ * so every model is treated as a chat model.
+ */
+export const listOpenAICompatibleModels = async (settings: AppSettings): Promise<ModelInfo[]> => {
+  const response = await fetch(endpoint(settings, '/models'), { headers: buildHeaders(settings) });
+  await ensureOk(response);
+
+  const json: { data?: { id: string }[] } = await response.json();
+  return (json.data || []).map(model => ({
+    id: model.id,
+    label: model.id,
+    provider: ProviderId.OPENAI_COMPATIBLE,
+    capabilities: [ModelCapability.CHAT],
+  }));
+};
+
+/**
+ * Sends a message and waits for the complete answer.
+ */
+export const sendMessageToOpenAICompatible = async (
+  history: ChatMessage[],
+  currentMessage: string,
+  attachments: Attachment[],
+  settings: AppSettings
+): Promise<string> => {
+  try {
+    const response = await fetch(endpoint(settings, '/chat/completions'), {
+      method: 'POST',
+      headers: buildHeaders(settings),
+      body: JSON.stringify({
+        model: settings.model,
+        messages: buildMessages(history, currentMessage, attachments, settings),
+        ...samplingFields(settings, false),
+      }),
+    });
+    await ensureOk(response);
+
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || "";
+  } catch (error) {
+    console.error("OpenAI-compatible Chat Error:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Streams the answer using server-sent events.
+ * Tool calls are executed locally and answered with `tool` messages until the model
+ * produces a final answer (bounded by `MAX_TOOL_ROUNDS`).
+ * Aborting the signal stops the stream and resolves with the text received so far.
+ * With `structuredOutput`, the server is asked for JSON following its schema.
+ * Search grounding uses `web_search_options`, and `url_citation` annotations become
+ * citations. There is no equivalent of URL context.
+ */
+export const streamMessageToOpenAICompatible = async (
+  history: ChatMessage[],
+  currentMessage: string,
+  attachments: Attachment[],
+  settings: AppSettings,
+  callbacks: ChatStreamCallbacks,
+  signal?: AbortSignal,
+  structuredOutput?: StructuredOutputInfo
+): Promise<ChatStreamResult> => {
+  const tools = getEnabledTools(settings).map(t => ({
+    type: 'function',
+    function: { name: t.name, description: t.description, parameters: t.parameters },
+  }));
+  const messages = buildMessages(history, currentMessage, attachments, settings);
+  let fullText = '';
+  let fullThoughts = '';
+  // Text of the other candidates, by choice index minus one
+  let alternatives: string[] = [];
+  // Citations of every round, with offsets into `fullText`
+  const annotations: OpenAIAnnotation[] = [];
+
+  try {
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const response = await fetch(endpoint(settings, '/chat/completions'), {
+        method: 'POST',
+        headers: buildHeaders(settings),
+        body: JSON.stringify({
+          model: settings.model,
+          messages,
+          tools: tools.length > 0 ? tools : undefined,
+          stream: true,
+          response_format: structuredOutput ? responseFormat(structuredOutput) : undefined,
+          web_search_options: settings.enableSearchGrounding ? {} : undefined,
+          // Alternative candidates are only requested for the first answer
+          ...samplingFields(settings, round === 0),
+        }),
+        signal,
+      });
+      await ensureOk(response);
+      if (!response.body) throw new Error("Streaming is not supported by this server");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let roundText = '';
+      const roundAnnotations: OpenAIAnnotation[] = [];
+      // Tool call deltas arrive in fragments keyed by index
+      const toolCalls: OpenAIToolCall[] = [];
+      // Text from a later round starts a new paragraph
+      let separator = fullText ? '\n\n' : '';
+
+      readLoop: while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are newline-delimited; keep the trailing partial line for the next read
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') break readLoop;
+
+          for (const choice of JSON.parse(data).choices || []) {
+            // Other candidates are only collected; tool calls and thinking come from the first
+            if (choice.index > 0) {
+              if (choice.delta?.content) {
+                alternatives[choice.index - 1] = (alternatives[choice.index - 1] ?? '') + choice.delta.content;
+              }
+              continue;
+            }
+            if (choice.finish_reason === 'content_filter') {
+              throw new ServiceError('safety', 'Response blocked: content_filter');
+            }
+            const delta = choice.delta;
+            for (const fragment of delta?.tool_calls || []) {
+              const call = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+              if (fragment.id) call.id = fragment.id;
+              if (fragment.function?.name) call.function.name += fragment.function.name;
+              if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+            }
+
+            roundAnnotations.push(...(delta?.annotations || []));
+
+            // Reasoning models expose their thinking under different field names depending on the server
+            const thought: string | undefined = delta?.reasoning_content || delta?.reasoning;
+            if (thought) {
+              fullThoughts += thought;
+              callbacks.onThought?.(thought, fullThoughts);
+            }
+
+            const chunkText: string | undefined = delta?.content;
+            if (!chunkText) continue;
+            roundText += chunkText;
+            fullText += separator + chunkText;
+            callbacks.onText(separator + chunkText, fullText);
+            separator = '';
+          }
+        }
+      }
+
+      // Annotation offsets count from the start of the round's message
+      const roundStart = fullText.length - roundText.length;
+      annotations.push(...roundAnnotations.map(a => a.url_citation ? {
+        ...a,
+        url_citation: {
+          ...a.url_citation,
+          start_index: a.url_citation.start_index + roundStart,
+          end_index: a.url_citation.end_index + roundStart,
+        },
+      } : a));
+
+      if (signal?.aborted) return { text: fullText, truncated: true, thoughts: fullThoughts };
+      if (toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+
+      // The other candidates can't follow the tool results
+      alternatives = [];
+      messages.push({ role: 'assistant', content: roundText || null, tool_calls: toolCalls });
+
+      const settledCalls = await Promise.all(toolCalls.map((call, i) => {
+        let args: Record<string, unknown> = {};
+        try {
+          args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch {
+          // Malformed arguments are reported back to the model by the tool itself
+        }
+        return executeToolCall({
+          id: call.id || `${Date.now()}-${round}-${i}`,
+          name: call.function.name,
+          args,
+          status: 'running',
+        }, callbacks.onToolCall);
+      }));
+
+      settledCalls.forEach((call, i) => messages.push({
+        role: 'tool',
+        tool_call_id: toolCalls[i].id,
+        content: JSON.stringify(toolCallResponse(call)),
+      }));
+    }
+
+    return {
+      text: fullText,
+      truncated: false,
+      thoughts: fullThoughts,
+      candidates: alternatives.some(Boolean) ? [fullText, ...alternatives.filter(Boolean)] : undefined,
+      grounding: parseOpenAIAnnotations(fullText, annotations),
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { text: fullText, truncated: true, thoughts: fullThoughts };
+    }
+    console.error("OpenAI-compatible Chat Error:", error);
+    throw classifyError(error);
+  }
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 PROVIDER                                   */
+/* -------------------------------------------------------------------------- */
+
+export const openAICompatibleProvider: ModelProvider = {
+  id: ProviderId.OPENAI_COMPATIBLE,
+  label: 'OpenAI-compatible (local)',
+  defaultModel: '',
+  listModels: listOpenAICompatibleModels,
+  sendMessage: sendMessageToOpenAICompatible,
+  streamMessage: streamMessageToOpenAICompatible,
+};
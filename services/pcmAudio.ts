@@ -0,0 +1,261 @@
+/**
+ * Helpers for the headerless PCM16 audio used by the Gemini TTS and Live APIs: encoding
+ * and decoding, WAV export, and gapless playback of long texts spoken in several requests.
+ */
+
+export const TTS_SAMPLE_RATE = 24000;
+
+// Longest piece of text sent in a single TTS request
+const MAX_SPEECH_CHUNK_LENGTH = 400;
+// Number of messages whose synthesized audio is kept in memory
+const MAX_CACHED_SPEECH = 20;
+
+/* -------------------------------------------------------------------------- */
+/*                                 ENCODING                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Manual Base64 to ArrayBuffer decoder
+ */
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Manual ArrayBuffer to Base64 encoder
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Wraps audio as a PCM16 blob (Gemini API requirement). Float32 data (web audio api) is
+ * converted; Int16 data, e.g. from `startAudioCapture`, is sent as is.
+ */
+export function createPcmBlob(data: Float32Array | Int16Array, sampleRate = 16000): { data: string, mimeType: string } {
+  let int16: Int16Array;
+  if (data instanceof Int16Array) {
+    int16 = data;
+  } else {
+    const l = data.length;
+    int16 = new Int16Array(l);
+    for (let i = 0; i < l; i++) {
+      // Clamp values
+      const s = Math.max(-1, Math.min(1, data[i]));
+      // Convert to PCM16
+      int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+  }
+
+  return {
+    data: arrayBufferToBase64(int16.buffer as ArrayBuffer),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+/**
+ * Decodes headerless mono PCM16 into an AudioBuffer. `decodeAudioData` can't be used
+ * because it expects a container format such as WAV.
+ */
+export function decodePcm16(arrayBuffer: ArrayBuffer, ctx: BaseAudioContext, sampleRate = TTS_SAMPLE_RATE): AudioBuffer {
+  const dataInt16 = new Int16Array(arrayBuffer);
+  const buffer = ctx.createBuffer(1, dataInt16.length, sampleRate);
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) {
+    channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+}
+
+export function concatPcm(parts: ArrayBuffer[]): ArrayBuffer {
+  const total = parts.reduce((sum, part) => sum + part.byteLength, 0);
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(new Uint8Array(part), offset);
+    offset += part.byteLength;
+  });
+  return bytes.buffer;
+}
+
+/**
+ * Prepends a 44-byte RIFF header so mono PCM16 can be saved and opened as a .wav file.
+ */
+export function encodeWav(pcm: ArrayBuffer, sampleRate = TTS_SAMPLE_RATE): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  SPEECH                                    */
+/* -------------------------------------------------------------------------- */
+
+export type SynthesizeSpeech = (text: string) => Promise<ArrayBuffer>;
+
+export interface SpeechPlayback {
+  stop: () => void;
+  done: Promise<void>; // Settles when playback ends or is stopped; rejects if synthesis fails
+}
+
+const speechCache = new Map<string, ArrayBuffer>();
+
+const cacheSpeech = (key: string, pcm: ArrayBuffer) => {
+  speechCache.delete(key);
+  speechCache.set(key, pcm);
+  // Maps iterate in insertion order, so the first key is the least recently stored
+  if (speechCache.size > MAX_CACHED_SPEECH) {
+    speechCache.delete(speechCache.keys().next().value!);
+  }
+};
+
+export const getCachedSpeech = (key: string): ArrayBuffer | undefined => speechCache.get(key);
+
+/**
+ * Splits text into sentence-sized pieces no longer than `maxLength`, so long messages
+ * start playing after the first sentence instead of after the whole reply is synthesized.
+ */
+export const splitIntoSpeechChunks = (text: string, maxLength = MAX_SPEECH_CHUNK_LENGTH): string[] => {
+  const sentences = text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g) ?? [text];
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string) => {
+    if (!current) {
+      current = piece;
+    } else if (current.length + piece.length + 1 <= maxLength) {
+      current = `${current} ${piece}`;
+    } else {
+      chunks.push(current);
+      current = piece;
+    }
+  };
+
+  sentences.map(s => s.trim()).filter(Boolean).forEach(sentence => {
+    if (sentence.length <= maxLength) {
+      push(sentence);
+      return;
+    }
+    // A run-on sentence is broken between words instead
+    sentence.split(/\s+/).forEach(word => push(word.slice(0, maxLength)));
+  });
+
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Synthesizes every chunk in order and caches the joined audio under `key`.
+ */
+export const synthesizeSpeech = async (key: string, chunks: string[], synthesize: SynthesizeSpeech): Promise<ArrayBuffer> => {
+  const cached = speechCache.get(key);
+  if (cached) return cached;
+
+  const parts: ArrayBuffer[] = [];
+  for (const chunk of chunks) {
+    parts.push(await synthesize(chunk));
+  }
+  const pcm = concatPcm(parts);
+  cacheSpeech(key, pcm);
+  return pcm;
+};
+
+/**
+ * Speaks the chunks, replaying cached audio for `key` when available. Otherwise each chunk
+ * is scheduled right after the previous one as soon as it arrives, while the next is requested.
+ * `playbackRate` changes speed without re-synthesizing, so it isn't part of the cache key.
+ * Buffer sources resample rather than time-stretch, so the pitch shifts along with it.
+ */
+export const playSpeech = (key: string, chunks: string[], synthesize: SynthesizeSpeech, playbackRate = 1): SpeechPlayback => {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let isScheduled = false;
+  let isStopped = false;
+  let finish = () => {};
+
+  const ended = new Promise<void>(resolve => { finish = resolve; });
+
+  const schedule = (pcm: ArrayBuffer) => {
+    const source = ctx.createBufferSource();
+    source.buffer = decodePcm16(pcm, ctx);
+    source.playbackRate.value = playbackRate;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      sources.delete(source);
+      if (isScheduled && sources.size === 0) finish();
+    };
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    source.start(nextStartTime);
+    nextStartTime += source.buffer.duration / playbackRate;
+    sources.add(source);
+  };
+
+  const run = async () => {
+    const cached = speechCache.get(key);
+    if (cached) {
+      schedule(cached);
+    } else {
+      const parts: ArrayBuffer[] = [];
+      let pending = chunks.length > 0 ? synthesize(chunks[0]) : null;
+
+      for (let i = 0; i < chunks.length && pending; i++) {
+        const pcm = await pending;
+        if (isStopped) return;
+        pending = i + 1 < chunks.length ? synthesize(chunks[i + 1]) : null;
+        parts.push(pcm);
+        schedule(pcm);
+      }
+      cacheSpeech(key, concatPcm(parts));
+    }
+
+    isScheduled = true;
+    if (sources.size === 0) finish();
+    await ended;
+  };
+
+  const stop = () => {
+    isStopped = true;
+    sources.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+    });
+    sources.clear();
+    finish();
+  };
+
+  const done = run().finally(() => {
+    ctx.close().catch(() => {});
+  });
+
+  return { stop, done: Promise.race([done, ended]) };
+};
@@ -0,0 +1,151 @@
+import { AppSettings, PresetSettings, ProviderId, SettingsPreset } from "../types";
+import {
+  DEFAULT_PRESETS, INITIAL_SETTINGS, PRESET_EXPORT_FORMAT, PRESET_EXPORT_VERSION, PRESET_SETTING_KEYS,
+  PRESETS_STORAGE_KEY, SETTINGS_STORAGE_KEY
+} from "../constants";
+
+/**
+ * The default settings new conversations start from, and named presets (personas) that
+ * bundle a model, thinking, voice and system instruction. Both live in localStorage.
+ */
+
+export interface PresetExport {
+  format: typeof PRESET_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: SettingsPreset[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  SETTINGS                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * The last settings used, on top of the built-in defaults so settings added since they
+ * were saved get their default value.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    return { ...INITIAL_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return INITIAL_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  PRESETS                                   */
+/* -------------------------------------------------------------------------- */
+
+export const loadPresets = (): SettingsPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_PRESETS;
+  } catch {
+    return DEFAULT_PRESETS;
+  }
+};
+
+export const savePresets = (presets: SettingsPreset[]) => {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const toPresetSettings = (settings: AppSettings): PresetSettings => {
+  return Object.fromEntries(PRESET_SETTING_KEYS.map(key => [key, settings[key]])) as PresetSettings;
+};
+
+export const applyPreset = (settings: AppSettings, preset: SettingsPreset): AppSettings => ({
+  ...settings,
+  ...preset.settings,
+});
+
+// Whether the settings still match the preset, or have been changed since it was applied
+export const matchesPreset = (settings: AppSettings, preset: SettingsPreset): boolean => {
+  return PRESET_SETTING_KEYS.every(key => settings[key] === preset.settings[key]);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                               IMPORT / EXPORT                              */
+/* -------------------------------------------------------------------------- */
+
+export const exportPresets = (presets: SettingsPreset[]): Blob => {
+  const payload: PresetExport = {
+    format: PRESET_EXPORT_FORMAT,
+    version: PRESET_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets,
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
+
+const validatePreset = (value: unknown, index: number): SettingsPreset => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error(`Preset ${index + 1} has no name.`);
+  }
+  const settings = value.settings;
+  if (!isRecord(settings)) throw new Error(`Preset "${value.name}" has no settings.`);
+  if (typeof settings.model !== 'string' || typeof settings.systemInstruction !== 'string') {
+    throw new Error(`Preset "${value.name}" is missing its model or system instruction.`);
+  }
+
+  // Unknown providers and missing fields fall back to the defaults
+  const provider = Object.values(ProviderId).includes(settings.provider as ProviderId)
+    ? settings.provider as ProviderId
+    : INITIAL_SETTINGS.provider;
+  const defaults = toPresetSettings(INITIAL_SETTINGS);
+
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : `${Date.now()}-${index}`,
+    name: value.name.trim(),
+    settings: {
+      provider,
+      model: settings.model,
+      enableThinking: typeof settings.enableThinking === 'boolean' ? settings.enableThinking : defaults.enableThinking,
+      thinkingBudget: typeof settings.thinkingBudget === 'number' ? settings.thinkingBudget : defaults.thinkingBudget,
+      enableTTS: typeof settings.enableTTS === 'boolean' ? settings.enableTTS : defaults.enableTTS,
+      ttsVoice: typeof settings.ttsVoice === 'string' ? settings.ttsVoice : defaults.ttsVoice,
+      ttsStyle: typeof settings.ttsStyle === 'string' ? settings.ttsStyle : defaults.ttsStyle,
+      systemInstruction: settings.systemInstruction,
+    },
+  };
+};
+
+/**
+ * Parses and validates a file written by `exportPresets`.
+ */
+export const parsePresetExport = (json: string): SettingsPreset[] => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(payload) || payload.format !== PRESET_EXPORT_FORMAT) {
+    throw new Error("The file is not a Nova preset export.");
+  }
+  if (typeof payload.version !== 'number' || payload.version < 1) {
+    throw new Error("The export has no valid schema version.");
+  }
+  if (payload.version > PRESET_EXPORT_VERSION) {
+    throw new Error(`The export uses schema version ${payload.version}, but this version of Nova only supports up to ${PRESET_EXPORT_VERSION}.`);
+  }
+  if (!Array.isArray(payload.presets)) throw new Error("The export contains no presets.");
+
+  return payload.presets.map(validatePreset);
+};
+
+/**
+ * Adds imported presets, replacing any existing preset with the same id.
+ */
+export const mergePresets = (existing: SettingsPreset[], imported: SettingsPreset[]): SettingsPreset[] => {
+  const importedIds = new Set(imported.map(p => p.id));
+  return [...existing.filter(p => !importedIds.has(p.id)), ...imported];
+};
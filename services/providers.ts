@@ -0,0 +1,23 @@
+import { AppSettings, ModelProvider, ProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openAICompatibleProvider } from "./openAICompatibleService";
+
+export const PROVIDERS: ModelProvider[] = [geminiProvider, openAICompatibleProvider];
+
+export const getProvider = (id: ProviderId): ModelProvider => {
+  return PROVIDERS.find(p => p.id === id) || geminiProvider;
+};
+
+type OptionalFeature = 'generateImage' | 'generateSpeech' | 'connectLive';
+
+/**
+ * Returns the selected provider if it implements the feature, otherwise Gemini.
+ * This lets a local chat model be combined with Gemini's image, speech and live audio.
+ */
+export const getProviderFor = <F extends OptionalFeature>(
+  settings: AppSettings,
+  feature: F
+): ModelProvider & Required<Pick<ModelProvider, F>> => {
+  const provider = getProvider(settings.provider);
+  return (provider[feature] ? provider : geminiProvider) as ModelProvider & Required<Pick<ModelProvider, F>>;
+};
@@ -0,0 +1,38 @@
+import { AppSettings, SamplingLimits, SamplingParams } from "../types";
+import { DEFAULT_SAMPLING_LIMITS, GEMINI_MODELS, MAX_STOP_SEQUENCES } from "../constants";
+
+/**
+ * Generation parameters (temperature, top-p, top-k, output length, stop sequences, seed
+ * and candidate count), checked against the ranges the selected model accepts.
+ */
+
+export const getSamplingLimits = (settings: AppSettings): SamplingLimits => {
+  const model = GEMINI_MODELS.find(m => m.id === settings.model && m.provider === settings.provider);
+  return model?.sampling ?? DEFAULT_SAMPLING_LIMITS;
+};
+
+const clamp = (value: number | undefined, min: number, max: number): number | undefined => {
+  if (value === undefined || !Number.isFinite(value)) return undefined;
+  return Math.min(max, Math.max(min, value));
+};
+
+/**
+ * The parameters to send for a turn. Values saved for a model with wider ranges are
+ * clamped rather than rejected, so switching models never breaks a conversation.
+ */
+export const toSamplingParams = (settings: AppSettings): SamplingParams => {
+  const limits = getSamplingLimits(settings);
+  const stopSequences = settings.stopSequences.filter(s => s.length > 0).slice(0, MAX_STOP_SEQUENCES);
+  const topK = clamp(settings.topK, 1, limits.maxTopK);
+  const maxOutputTokens = clamp(settings.maxOutputTokens, 1, limits.maxOutputTokens);
+
+  return {
+    temperature: clamp(settings.temperature, 0, limits.maxTemperature),
+    topP: clamp(settings.topP, 0, 1),
+    topK: topK === undefined ? undefined : Math.round(topK),
+    maxOutputTokens: maxOutputTokens === undefined ? undefined : Math.round(maxOutputTokens),
+    stopSequences: stopSequences.length > 0 ? stopSequences : undefined,
+    seed: settings.seed === undefined || !Number.isFinite(settings.seed) ? undefined : Math.round(settings.seed),
+    candidateCount: Math.round(clamp(settings.candidateCount, 1, limits.maxCandidates) ?? 1),
+  };
+};
@@ -0,0 +1,131 @@
+import { AppSettings, SpeechOptions } from "../types";
+import { splitIntoSpeechChunks } from "./pcmAudio";
+
+/**
+ * What to send to the TTS model for one message. `key` identifies the audio in the speech
+ * cache, so it covers everything that changes the synthesized result.
+ */
+export interface SpeechRequest {
+  key: string;
+  chunks: string[];
+  options: SpeechOptions;
+}
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// Longest run of dialogue lines sent in a single TTS request
+const MAX_DIALOGUE_CHUNK_LENGTH = 600;
+
+// "Name: line", optionally bulleted or with the name in bold
+const DIALOGUE_LINE_PATTERN = /^\s*(?:[-*]\s+)?\**([A-Z][\w.' -]{0,30}?)\**\s*:\**\s+(.+)$/;
+
+/**
+ * Turns Markdown into plain text that reads naturally aloud. Code blocks and images are
+ * skipped, links keep their text, and formatting characters are removed.
+ */
+export const toSpeakableText = (markdown: string): string => {
+  return markdown
+    .replace(/```[\s\S]*?(?:```|$)/g, '\n')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '')
+    .replace(/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, '')
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)+[ \t]*(?::?-+:?)?[ \t]*$/gm, '')
+    .replace(/^[ \t]*\|[ \t]*|[ \t]*\|[ \t]*$/gm, '')
+    .replace(/[ \t]*\|[ \t]*/g, ', ')
+    .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/(\*\*|__|~~|\*)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|\W)_(?=\S)([^_]*?\S)_(?=\W|$)/g, '$1$2')
+    // Headings, list items and table rows end without punctuation; add a pause
+    .replace(/([^\s.!?:;,])[ \t]*(?=\n)/g, '$1.')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+/**
+ * Finds a script written as "Name: line" between exactly two speakers. Other lines, such as
+ * a title or stage directions, are ignored. Returns null when the text isn't a dialogue.
+ */
+export const parseDialogue = (markdown: string): DialogueLine[] | null => {
+  const lines: DialogueLine[] = [];
+  markdown.split('\n').forEach(line => {
+    const match = line.match(DIALOGUE_LINE_PATTERN);
+    if (!match) return;
+    const text = toSpeakableText(match[2]);
+    if (text) lines.push({ speaker: match[1].trim(), text });
+  });
+
+  const speakers = new Set(lines.map(l => l.speaker));
+  return speakers.size === 2 && lines.length >= 2 ? lines : null;
+};
+
+// FNV-1a over the spoken text; picking another candidate keeps the message id but changes its text
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Keeps whole lines together so every request still names the speakers it voices
+const splitDialogueChunks = (lines: DialogueLine[]): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  lines.forEach(({ speaker, text }) => {
+    const line = `${speaker}: ${text}`;
+    if (current && current.length + line.length + 1 > MAX_DIALOGUE_CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Builds the TTS request for a message from the speech settings. With `asDialogue`, a
+ * two-speaker script is voiced with one voice per speaker; other text is read normally.
+ */
+export const buildSpeechRequest = (
+  messageId: string,
+  text: string,
+  settings: AppSettings,
+  asDialogue = false
+): SpeechRequest => {
+  const style = settings.ttsStyle.trim() || undefined;
+  const dialogue = asDialogue ? parseDialogue(text) : null;
+
+  if (dialogue) {
+    const [first, second] = Array.from(new Set(dialogue.map(l => l.speaker)));
+    const chunks = splitDialogueChunks(dialogue);
+    return {
+      key: `${messageId}:dialogue:${settings.ttsVoice}:${settings.ttsDialogueVoice}:${style ?? ''}:${hashText(chunks.join('\n'))}`,
+      chunks,
+      options: {
+        style,
+        speakers: [
+          { name: first, voiceName: settings.ttsVoice },
+          { name: second, voiceName: settings.ttsDialogueVoice },
+        ],
+      },
+    };
+  }
+
+  const chunks = splitIntoSpeechChunks(toSpeakableText(text));
+  return {
+    key: `${messageId}:${settings.ttsVoice}:${style ?? ''}:${hashText(chunks.join('\n'))}`,
+    chunks,
+    options: { voiceName: settings.ttsVoice, style },
+  };
+};
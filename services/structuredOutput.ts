@@ -0,0 +1,188 @@
+import { SavedSchema } from "../types";
+import { DEFAULT_SCHEMAS, SCHEMAS_STORAGE_KEY } from "../constants";
+
+/**
+ * Structured mode: replies constrained to a JSON schema, checked against it once they
+ * arrive. Saved schemas live in localStorage so every conversation can reuse them.
+ */
+
+export interface SchemaValidationError {
+  path: string; // e.g. "$.items[2].price"
+  message: string;
+}
+
+export interface StructuredOutputResult {
+  data?: unknown; // Undefined when the text is not JSON
+  errors: SchemaValidationError[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  STORAGE                                   */
+/* -------------------------------------------------------------------------- */
+
+export const loadSchemas = (): SavedSchema[] => {
+  try {
+    const stored = localStorage.getItem(SCHEMAS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_SCHEMAS;
+  } catch {
+    return DEFAULT_SCHEMAS;
+  }
+};
+
+export const saveSchemas = (schemas: SavedSchema[]) => {
+  localStorage.setItem(SCHEMAS_STORAGE_KEY, JSON.stringify(schemas));
+};
+
+/**
+ * Parses schema text typed by the user. Throws with a message fit for display.
+ */
+export const parseSchema = (text: string): Record<string, unknown> => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`The schema is not valid JSON: ${err.message}`);
+  }
+  if (!isRecord(schema)) throw new Error("The schema must be a JSON object.");
+  if (schema.type === undefined && schema.properties === undefined && schema.items === undefined && schema.enum === undefined) {
+    throw new Error("The schema needs a type, properties, items or enum.");
+  }
+  return schema;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 VALIDATION                                 */
+/* -------------------------------------------------------------------------- */
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const childPath = (path: string, key: string | number) => {
+  return typeof key === 'number' ? `${path}[${key}]` : `${path}.${key}`;
+};
+
+/**
+ * Checks a value against the subset of JSON Schema the providers accept: types, object
+ * properties, required and additional properties, array items, enums, numeric ranges,
+ * string and array lengths, and patterns. Other keywords are ignored.
+ */
+export const validateJson = (value: unknown, schema: Record<string, unknown>, path = '$'): SchemaValidationError[] => {
+  const errors: SchemaValidationError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  const types = Array.isArray(schema.type) ? [...schema.type as string[]] : typeof schema.type === 'string' ? [schema.type] : [];
+  if (schema.nullable === true) types.push('null');
+  if (types.length > 0 && !types.some(t => matchesType(value, t))) {
+    fail(`Expected ${types.join(' or ')}, got ${typeOf(value)}`);
+    return errors;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    fail(`Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) fail(`Must be at least ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) fail(`Must be at most ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) fail(`Must be at least ${schema.minLength} characters`);
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) fail(`Must be at most ${schema.maxLength} characters`);
+    if (typeof schema.pattern === 'string') {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) fail(`Must match ${schema.pattern}`);
+      } catch {
+        // A pattern the browser can't compile is the schema's problem, not the reply's
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) fail(`Must have at least ${schema.minItems} items`);
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) fail(`Must have at most ${schema.maxItems} items`);
+    if (isRecord(schema.items)) {
+      const itemSchema = schema.items;
+      value.forEach((item, i) => errors.push(...validateJson(item, itemSchema, childPath(path, i))));
+    }
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in value)) errors.push({ path: childPath(path, key), message: 'Required property is missing' });
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isRecord(propertySchema)) {
+        errors.push(...validateJson(child, propertySchema, childPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath(path, key), message: 'Property is not allowed by the schema' });
+      }
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Parses a structured reply and validates it. Models sometimes wrap the JSON in a
+ * Markdown code fence even when asked not to, so one is stripped first.
+ */
+export const parseStructuredOutput = (text: string, schema: Record<string, unknown>): StructuredOutputResult => {
+  const json = text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/, '$1');
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err: any) {
+    return { errors: [{ path: '$', message: `The reply is not valid JSON: ${err.message}` }] };
+  }
+  return { data, errors: validateJson(data, schema) };
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    CSV                                     */
+/* -------------------------------------------------------------------------- */
+
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns for a table of rows: every key that appears in an object row, in first-seen order
+export const tableColumns = (rows: unknown[]): string[] => {
+  const columns = new Set<string>();
+  rows.forEach(row => {
+    if (isRecord(row)) Object.keys(row).forEach(key => columns.add(key));
+  });
+  return [...columns];
+};
+
+/**
+ * Writes an array as CSV. Object rows get a column per key; other values go in a single
+ * "value" column. Nested values are written as JSON.
+ */
+export const toCsv = (rows: unknown[]): string => {
+  const columns = tableColumns(rows);
+  if (columns.length === 0) {
+    return ['value', ...rows.map(csvCell)].join('\r\n');
+  }
+  const lines = rows.map(row => columns.map(column => csvCell(isRecord(row) ? row[column] : undefined)).join(','));
+  return [columns.map(csvCell).join(','), ...lines].join('\r\n');
+};
@@ -0,0 +1,296 @@
+import { AppSettings, ToolCall, ToolDefinition } from "../types";
+import { NOTES_STORAGE_KEY } from "../constants";
+
+/* -------------------------------------------------------------------------- */
+/*                                CALCULATOR                                  */
+/* -------------------------------------------------------------------------- */
+
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+/**
+ * Evaluates an arithmetic expression with a small recursive-descent parser.
+ * Supports + - * / % ^, parentheses, unary minus, and the functions/constants above.
+ * We never hand model output to `eval`.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(\.\d+)?(e[+-]?\d+)?|\.\d+|[a-z_]+|[-+*/%^()]/gi);
+  if (!tokens || tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Invalid expression: ${expression}`);
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+
+    if (token === '(') {
+      const value = parseSum();
+      if (next() !== ')') throw new Error("Missing closing parenthesis");
+      return value;
+    }
+    if (token === '-') return -parsePower();
+    if (token === '+') return parsePower();
+
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (Object.hasOwn(MATH_FUNCTIONS, name)) {
+      if (next() !== '(') throw new Error(`Expected "(" after ${name}`);
+      const arg = parseSum();
+      if (next() !== ')') throw new Error("Missing closing parenthesis");
+      return MATH_FUNCTIONS[name](arg);
+    }
+    if (Object.hasOwn(MATH_CONSTANTS, name)) return MATH_CONSTANTS[name];
+
+    throw new Error(`Unknown token: ${token}`);
+  };
+
+  // Exponentiation is right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = next();
+      const rhs = parsePower();
+      if (op === '*') value *= rhs;
+      else if (op === '/') value /= rhs;
+      else value %= rhs;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const op = next();
+      const rhs = parseProduct();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (pos < tokens.length) throw new Error(`Unexpected token: ${peek()}`);
+  return result;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              UNIT CONVERSION                               */
+/* -------------------------------------------------------------------------- */
+
+// Factors to the base unit of each dimension (metre, kilogram, litre, second)
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: { mm: 0.001, cm: 0.01, m: 1, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344 },
+  mass: { mg: 0.000001, g: 0.001, kg: 1, t: 1000, oz: 0.028349523125, lb: 0.45359237 },
+  volume: { ml: 0.001, l: 1, tsp: 0.00492892, tbsp: 0.0147868, cup: 0.24, floz: 0.0295735, gal: 3.78541 },
+  time: { ms: 0.001, s: 1, min: 60, h: 3600, day: 86400, week: 604800 },
+};
+
+const toCelsius: Record<string, (v: number) => number> = {
+  c: v => v,
+  f: v => (v - 32) * 5 / 9,
+  k: v => v - 273.15,
+};
+
+const fromCelsius: Record<string, (v: number) => number> = {
+  c: v => v,
+  f: v => v * 9 / 5 + 32,
+  k: v => v + 273.15,
+};
+
+export function convertUnits(value: number, from: string, to: string): number {
+  const fromUnit = from.toLowerCase();
+  const toUnit = to.toLowerCase();
+
+  // Temperature is affine, so it can't use a simple factor table
+  if (Object.hasOwn(toCelsius, fromUnit) && Object.hasOwn(fromCelsius, toUnit)) {
+    return fromCelsius[toUnit](toCelsius[fromUnit](value));
+  }
+
+  for (const factors of Object.values(UNIT_FACTORS)) {
+    if (Object.hasOwn(factors, fromUnit) && Object.hasOwn(factors, toUnit)) {
+      return value * factors[fromUnit] / factors[toUnit];
+    }
+  }
+
+  throw new Error(`Cannot convert from "${from}" to "${to}"`);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   NOTES                                    */
+/* -------------------------------------------------------------------------- */
+
+const readNotes = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(NOTES_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeNotes = (notes: Record<string, string>) => {
+  localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 REGISTRY                                   */
+/* -------------------------------------------------------------------------- */
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    label: 'Calculator',
+    description: 'Evaluates an arithmetic expression. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log, exp.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression to evaluate, e.g. "(2 + 3) * sqrt(16)"' },
+      },
+      required: ['expression'],
+    },
+    handler: async (args) => ({ result: evaluateExpression(String(args.expression)) }),
+  },
+  {
+    name: 'get_current_datetime',
+    label: 'Date & Time',
+    description: "Returns the current date and time, optionally in a specific IANA time zone.",
+    parameters: {
+      type: 'object',
+      properties: {
+        timeZone: { type: 'string', description: 'IANA time zone such as "Europe/Helsinki". Defaults to the user\'s local zone.' },
+      },
+    },
+    handler: async (args) => {
+      const timeZone = typeof args.timeZone === 'string' && args.timeZone
+        ? args.timeZone
+        : Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const now = new Date();
+      return {
+        iso: now.toISOString(),
+        timeZone,
+        local: now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+      };
+    },
+  },
+  {
+    name: 'convert_units',
+    label: 'Unit Converter',
+    description: 'Converts a value between units of length (mm, cm, m, km, in, ft, yd, mi), mass (mg, g, kg, t, oz, lb), volume (ml, l, tsp, tbsp, cup, floz, gal), time (ms, s, min, h, day, week) or temperature (c, f, k).',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        from: { type: 'string', description: 'Source unit symbol' },
+        to: { type: 'string', description: 'Target unit symbol' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+    handler: async (args) => ({
+      result: convertUnits(Number(args.value), String(args.from), String(args.to)),
+      unit: args.to,
+    }),
+  },
+  {
+    name: 'notes',
+    label: 'Notes',
+    description: 'A persistent key-value notebook for remembering things between conversations. Actions: "set" stores text under a key, "get" reads a key, "list" returns all keys, "delete" removes a key.',
+    parameters: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['set', 'get', 'list', 'delete'] },
+        key: { type: 'string' },
+        value: { type: 'string', description: 'Text to store when action is "set"' },
+      },
+      required: ['action'],
+    },
+    handler: async (args) => {
+      const notes = readNotes();
+      const key = typeof args.key === 'string' ? args.key : '';
+
+      switch (args.action) {
+        case 'set':
+          if (!key) throw new Error('A key is required');
+          notes[key] = String(args.value ?? '');
+          writeNotes(notes);
+          return { saved: key };
+        case 'get':
+          if (!Object.hasOwn(notes, key)) throw new Error(`No note named "${key}"`);
+          return { key, value: notes[key] };
+        case 'list':
+          return { keys: Object.keys(notes) };
+        case 'delete':
+          delete notes[key];
+          writeNotes(notes);
+          return { deleted: key };
+        default:
+          throw new Error(`Unknown action: ${String(args.action)}`);
+      }
+    },
+  },
+];
+
+export const getEnabledTools = (settings: AppSettings): ToolDefinition[] => {
+  return TOOLS.filter(t => settings.enabledTools.includes(t.name));
+};
+
+/**
+ * Runs a tool and reports its progress. Failures are captured on the call rather than
+ * thrown, so the error can be sent back to the model as the function response.
+ */
+export const executeToolCall = async (
+  call: ToolCall,
+  onUpdate?: (call: ToolCall) => void
+): Promise<ToolCall> => {
+  onUpdate?.(call);
+
+  const tool = TOOLS.find(t => t.name === call.name);
+  let settled: ToolCall;
+  try {
+    if (!tool) throw new Error(`Unknown tool: ${call.name}`);
+    const result = await tool.handler(call.args);
+    settled = { ...call, status: 'success', result };
+  } catch (error: any) {
+    settled = { ...call, status: 'error', error: error.message || String(error) };
+  }
+
+  onUpdate?.(settled);
+  return settled;
+};
+
+/**
+ * The payload sent back to the model for a settled call.
+ */
+export const toolCallResponse = (call: ToolCall): Record<string, unknown> => {
+  return call.status === 'error' ? { error: call.error } : { output: call.result };
+};
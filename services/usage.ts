@@ -0,0 +1,152 @@
+import { ModelPrice, TokenUsage, UsageRecord } from "../types";
+import { DEFAULT_MODEL_PRICES, MODEL_PRICES_STORAGE_KEY } from "../constants";
+import { USAGE_STORE, openDatabase, promisifyRequest } from "./conversationStore";
+
+/**
+ * Token usage bookkeeping: a local log of every model call, editable price tables and the
+ * totals shown in the usage dashboard.
+ */
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  latencyMs: number; // Sum; divide by `requests` for the average
+  cost: number; // USD, counting only models with a price
+}
+
+export const emptyTokenUsage = (model: string): TokenUsage => ({
+  model,
+  promptTokens: 0,
+  outputTokens: 0,
+  thinkingTokens: 0,
+  cachedTokens: 0,
+  latencyMs: 0,
+});
+
+export const addTokenUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  model: a.model,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens,
+  latencyMs: a.latencyMs + b.latencyMs,
+});
+
+/* -------------------------------------------------------------------------- */
+/*                                   PRICES                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * The built-in price table with the user's edits applied.
+ */
+export const loadModelPrices = (): Record<string, ModelPrice> => {
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(localStorage.getItem(MODEL_PRICES_STORAGE_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_MODEL_PRICES };
+  }
+};
+
+export const saveModelPrices = (prices: Record<string, ModelPrice>) => {
+  localStorage.setItem(MODEL_PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+/**
+ * Cost in USD, or null when the model has no price. Cached prompt tokens are billed at
+ * the cached rate and thinking tokens as output.
+ */
+export const estimateCost = (usage: TokenUsage, prices: Record<string, ModelPrice>): number | null => {
+  const price = prices[usage.model];
+  if (!price) return null;
+  const uncached = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (
+    uncached * price.input +
+    usage.cachedTokens * price.cachedInput +
+    (usage.outputTokens + usage.thinkingTokens) * price.output
+  ) / 1_000_000;
+};
+
+export const formatCost = (usd: number): string => {
+  if (usd === 0) return '$0';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                    LOG                                     */
+/* -------------------------------------------------------------------------- */
+
+export const recordUsage = async (entry: Omit<UsageRecord, 'id' | 'timestamp'>): Promise<void> => {
+  const record: UsageRecord = {
+    ...entry,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+  };
+  const db = await openDatabase();
+  const store = db.transaction(USAGE_STORE, 'readwrite').objectStore(USAGE_STORE);
+  await promisifyRequest(store.put(record));
+};
+
+/**
+ * Loads the whole usage log, newest first.
+ */
+export const loadUsageRecords = async (): Promise<UsageRecord[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(USAGE_STORE, 'readonly').objectStore(USAGE_STORE);
+  const records = await promisifyRequest<UsageRecord[]>(store.getAll());
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const clearUsageRecords = async (): Promise<void> => {
+  const db = await openDatabase();
+  const store = db.transaction(USAGE_STORE, 'readwrite').objectStore(USAGE_STORE);
+  await promisifyRequest(store.clear());
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   TOTALS                                   */
+/* -------------------------------------------------------------------------- */
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, latencyMs: 0, cost: 0,
+});
+
+export const totalUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>): UsageTotals => {
+  return records.reduce((totals, record) => {
+    totals.requests++;
+    totals.promptTokens += record.promptTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.thinkingTokens += record.thinkingTokens;
+    totals.cachedTokens += record.cachedTokens;
+    totals.latencyMs += record.latencyMs;
+    totals.cost += estimateCost(record, prices) ?? 0;
+    return totals;
+  }, emptyTotals());
+};
+
+/**
+ * Totals per group, e.g. per model or per day, with the most expensive group first.
+ */
+export const groupUsage = (
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+  prices: Record<string, ModelPrice>
+): { key: string, totals: UsageTotals }[] => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    const group = groups.get(key);
+    if (group) group.push(record); else groups.set(key, [record]);
+  });
+  return Array.from(groups, ([key, group]) => ({ key, totals: totalUsage(group, prices) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost || b.totals.requests - a.totals.requests);
+};
+
+// Local calendar day, so totals line up with the user's own days
+export const usageDay = (record: UsageRecord): string => {
+  const date = new Date(record.timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
@@ -2,6 +2,55 @@ export enum ModelType {
   FLASH = 'gemini-2.5-flash',
   PRO = 'gemini-3-pro-preview',
   IMAGE_GEN = 'gemini-2.5-flash-image',
+  TTS = 'gemini-2.5-flash-preview-tts',
+}
+
+export enum ProviderId {
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai-compatible',
+}
+
+export enum ModelCapability {
+  CHAT = 'chat',
+  VISION = 'vision',
+  THINKING = 'thinking',
+  IMAGE_GEN = 'image-gen',
+  TTS = 'tts',
+  LIVE_AUDIO = 'live-audio',
+}
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: ProviderId;
+  capabilities: ModelCapability[];
+  contextWindow?: number; // Input token limit, when known
+  sampling?: SamplingLimits; // Valid generation parameter ranges, when known
+}
+
+/**
+ * Upper bounds for the generation parameters a model accepts. Lower bounds are 0, or 1
+ * for top-k and the candidate count.
+ */
+export interface SamplingLimits {
+  maxTemperature: number;
+  maxTopK: number;
+  maxOutputTokens: number;
+  maxCandidates: number;
+}
+
+/**
+ * Generation parameters as sent to a provider, already clamped to the model's limits.
+ * Unset values leave the model's default in place.
+ */
+export interface SamplingParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  candidateCount: number;
 }
 
 export enum MessageRole {
@@ -14,22 +63,394 @@ export interface Attachment {
   mimeType: string;
   data: string; // Base64
   previewUrl: string;
+  name?: string; // Original filename; generated images have none
+  size?: number; // Bytes before base64 encoding
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'success' | 'error';
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * A local function the model can call. `parameters` is a JSON schema describing an object.
+ */
+export interface ToolDefinition {
+  name: string;
+  label: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  handler: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+export type ImageAspectRatio = "1:1" | "2:3" | "3:2" | "3:4" | "4:3" | "4:5" | "5:4" | "9:16" | "16:9" | "21:9";
+
+/**
+ * How the images attached to a model reply were generated.
+ */
+export interface ImageGenerationInfo {
+  prompt: string;
+  model: string;
+  aspectRatio: ImageAspectRatio;
+}
+
+/**
+ * A JSON schema the reply must follow. Set on the user message that asked for it and on
+ * the reply, which holds the JSON as its text.
+ */
+export interface StructuredOutputInfo {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+// A schema saved for reuse across conversations
+export interface SavedSchema extends StructuredOutputInfo {
+  id: string;
+}
+
+/**
+ * A web page a grounded reply drew on, found by search or read from a URL in the prompt.
+ */
+export interface GroundingSource {
+  uri: string;
+  title: string;
+  origin: 'search' | 'url';
+}
+
+/**
+ * A span of a reply backed by sources. Offsets are string indices into the reply text.
+ */
+export interface Citation {
+  start: number;
+  end: number; // Exclusive; the citation marker goes here
+  sourceIndices: number[]; // Into the reply's `sources`
+}
+
+/**
+ * Sources and citations parsed from a provider's grounding metadata.
+ */
+export interface Grounding {
+  sources: GroundingSource[];
+  citations: Citation[];
+  searchQueries: string[];
+}
+
+/**
+ * A file in the knowledge library. Its extracted text is stored with it and split into
+ * chunks, which are what retrieval searches.
+ */
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes of the original file
+  addedAt: number;
+  chunkCount: number;
+  embeddingModel?: string; // Set when the chunks were also embedded for semantic search
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  index: number; // Position within the document
+  text: string;
+  start: number; // Offsets into the document's extracted text
+  end: number;
+  terms: Record<string, number>; // Term frequencies, for BM25
+  length: number; // Number of terms
+  embedding?: number[];
+}
+
+/**
+ * A library passage that was put in front of a prompt. Copied onto the reply, so it can
+ * still show what it drew on after the document is removed.
+ */
+export interface KnowledgeReference {
+  documentId: string;
+  documentName: string;
+  chunkId: string;
+  text: string;
+  start: number;
+  end: number;
 }
 
 export interface ChatMessage {
   id: string;
+  parentId?: string | null; // Previous message in the thread; siblings are alternative branches
   role: MessageRole;
   text: string;
   attachments?: Attachment[];
+  toolCalls?: ToolCall[]; // Tools the model invoked while producing this reply
+  thoughts?: string; // Thought summary; display only, never replayed to the model
+  thinkingTokens?: number;
+  usage?: TokenUsage; // What generating this reply cost
   timestamp: number;
   isError?: boolean;
+  errorKind?: ErrorKind; // Set on error replies
+  errorDetail?: string; // The provider's own error message, for error replies
   isThinking?: boolean;
+  isStreaming?: boolean;
+  isTruncated?: boolean; // Stream was stopped before the model finished
+  isVoice?: boolean; // Transcribed from a live voice call
+  isImagePrompt?: boolean; // Sent from image mode; answered by the image model
+  candidates?: string[]; // Every candidate reply when several were requested; `text` is the chosen one
+  selectedCandidate?: number; // Index of the chosen candidate
+  imageGeneration?: ImageGenerationInfo; // Set on replies whose attachments are generated images
+  structuredOutput?: StructuredOutputInfo; // Sent from structured mode, and set on its JSON reply
+  sources?: GroundingSource[]; // Pages a grounded reply drew on
+  citations?: Citation[]; // Spans of `text` backed by `sources`; refer to the first candidate
+  searchQueries?: string[]; // Web searches the model ran for a grounded reply
+  knowledge?: KnowledgeReference[]; // Library passages retrieved for the prompt this replies to
 }
 
 export interface AppSettings {
-  model: ModelType;
+  provider: ProviderId;
+  model: string; // Model id within the selected provider
+  openAIBaseUrl: string;
+  openAIApiKey: string;
   enableThinking: boolean;
   thinkingBudget: number;
   enableTTS: boolean;
   systemInstruction: string;
+  enabledTools: string[]; // Names of the local tools the model may call
+  liveIncludeChatHistory: boolean; // Seed live voice calls with the text conversation
+  liveModel: string;
+  liveVoice: string; // Prebuilt voice name
+  liveLanguage: string; // BCP-47 code; empty lets the model pick
+  liveInheritPersona: boolean; // Use `systemInstruction` for calls instead of the default voice persona
+  ttsVoice: string; // Prebuilt voice for read-aloud, and the first speaker in dialogue mode
+  ttsDialogueVoice: string; // Second speaker in dialogue mode
+  ttsStyle: string; // Optional delivery hint, e.g. "calm, slow"
+  ttsSpeed: number; // Playback rate; 1 is normal speed
+  imageAspectRatio: ImageAspectRatio;
+  imageVariations: number; // Images generated per prompt in image mode
+  contextStrategy: ContextStrategy; // How history is trimmed once it exceeds the token budget
+  contextBudgets: Record<string, number>; // Token budget per model id; models without one use their full window
+  requestTimeout: number; // Seconds a request may go without progress before it fails; 0 waits indefinitely
+  maxRetries: number; // Automatic retries after a transient failure
+  // Generation parameters; unset ones use the model's default
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences: string[];
+  seed?: number;
+  candidateCount: number; // Alternative replies generated per turn
+  enableSearchGrounding: boolean; // Let the model search the web and cite what it finds
+  enableUrlContext: boolean; // Let the model read URLs mentioned in the prompt
+  enableKnowledge: boolean; // Add the best-matching knowledge library passages to each prompt
+}
+
+/**
+ * Why a model request failed. Rate limits, network problems, timeouts and server errors
+ * are transient and retried automatically.
+ */
+export type ErrorKind = 'rateLimit' | 'auth' | 'safety' | 'network' | 'timeout' | 'server' | 'unknown';
+
+export type ContextStrategy = 'dropAttachments' | 'slidingWindow' | 'summarize';
+
+/**
+ * Condensed version of the oldest part of a thread, sent instead of those messages once
+ * the thread no longer fits the token budget.
+ */
+export interface ContextSummary {
+  throughMessageId: string; // Last message covered by the summary
+  text: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  settings: AppSettings; // Snapshot of the settings used by this conversation
+  createdAt: number;
+  updatedAt: number;
+  isArchived?: boolean;
+  selectedChildIds?: Record<string, string>; // Visible branch under each parent
+  contextSummary?: ContextSummary;
+  presetId?: string; // Persona last applied to this conversation
+}
+
+// The settings a preset bundles; applying one leaves everything else as it is
+export type PresetSettings = Pick<
+  AppSettings,
+  'provider' | 'model' | 'enableThinking' | 'thinkingBudget' | 'enableTTS' | 'ttsVoice' | 'ttsStyle' | 'systemInstruction'
+>;
+
+/**
+ * A named persona, e.g. "Code reviewer": a model and system instruction that can be
+ * applied to any conversation and shared as JSON.
+ */
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: PresetSettings;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              MODEL PROVIDERS                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Callbacks used while a chat response is streamed back from the model.
+ */
+export interface ChatStreamCallbacks {
+  onText: (chunk: string, fullText: string) => void;
+  onThought?: (chunk: string, fullThoughts: string) => void;
+  onToolCall?: (call: ToolCall) => void; // Fired when a call starts and again when it settles
+}
+
+/**
+ * Result of a streamed chat turn. `truncated` is set when the stream was
+ * cancelled through the abort signal before the model finished.
+ */
+export interface ChatStreamResult {
+  text: string;
+  truncated: boolean;
+  thoughts?: string;
+  thinkingTokens?: number;
+  usage?: TokenUsage; // Totals across tool rounds, when the provider reports them
+  candidates?: string[]; // Every candidate's text, first one equal to `text`, when several were generated
+  grounding?: Grounding; // For the first candidate, when the reply was grounded
+}
+
+/**
+ * Token counts reported for one model call, or summed over several.
+ */
+export interface TokenUsage {
+  model: string;
+  promptTokens: number; // Includes `cachedTokens`
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  latencyMs: number; // Time until the full response arrived
+}
+
+export type UsageKind = 'chat' | 'image' | 'speech' | 'live' | 'summary';
+
+/**
+ * One stored usage entry, attributed to the conversation and message it was for.
+ */
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  kind: UsageKind;
+  timestamp: number;
+  conversationId?: string;
+  messageId?: string;
+}
+
+// USD per million tokens; thinking is billed as output
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput: number;
+}
+
+/**
+ * Vectors for a batch of texts, in input order, and the model that produced them.
+ * Vectors from different models can't be compared.
+ */
+export interface Embeddings {
+  model: string;
+  vectors: number[][];
+}
+
+/**
+ * A prompt for the image model. With `images`, the model edits or restyles them instead of
+ * starting from scratch.
+ */
+export interface ImageGenerationRequest {
+  prompt: string;
+  aspectRatio: ImageAspectRatio;
+  images?: Attachment[];
+}
+
+export interface GeneratedImage {
+  mimeType: string;
+  data: string; // Base64
+  caption?: string;
+  usage?: TokenUsage;
+}
+
+export type LiveSpeaker = 'user' | 'model';
+
+export interface LiveTranscriptEntry {
+  speaker: LiveSpeaker;
+  text: string;
+  isFinal: boolean; // The turn this caption belongs to has completed
+  timestamp: number;
+}
+
+export interface SpeechSpeaker {
+  name: string; // As written in the script
+  voiceName: string;
+}
+
+export interface SpeechOptions {
+  voiceName?: string;
+  style?: string; // Natural-language delivery hint
+  speakers?: SpeechSpeaker[]; // Two named speakers; voices a script with one voice each
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface LiveSessionConfig {
+  model: string;
+  voiceName: string;
+  languageCode: string; // Empty lets the model pick
+  systemInstruction: string;
+  history: ChatMessage[]; // Prefilled as context before the call starts
+}
+
+export interface LiveSessionCallbacks {
+  onOpen: () => void;
+  onAudio: (base64Pcm: string) => void; // 24kHz mono PCM16
+  onTranscript?: (speaker: LiveSpeaker, text: string) => void; // Incremental caption text
+  onTurnComplete?: () => void;
+  onUsage?: (usage: TokenUsage) => void; // Reported per model turn
+  onInterrupted: () => void;
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveSession {
+  sendAudio: (chunk: { data: string, mimeType: string }) => void;
+  endAudio?: () => void; // Microphone went quiet; lets the server close the user's turn
+  close: () => void;
+}
+
+/**
+ * A backend that can serve Nova's features. Chat is required; the other
+ * capabilities are optional and fall back to Gemini when a provider lacks them.
+ */
+export interface ModelProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  listModels: (settings: AppSettings) => Promise<ModelInfo[]>;
+  sendMessage: (
+    history: ChatMessage[],
+    currentMessage: string,
+    attachments: Attachment[],
+    settings: AppSettings
+  ) => Promise<string>;
+  streamMessage: (
+    history: ChatMessage[],
+    currentMessage: string,
+    attachments: Attachment[],
+    settings: AppSettings,
+    callbacks: ChatStreamCallbacks,
+    signal?: AbortSignal,
+    structuredOutput?: StructuredOutputInfo // Constrains the reply to JSON matching the schema
+  ) => Promise<ChatStreamResult>;
+  generateImage?: (request: ImageGenerationRequest, signal?: AbortSignal) => Promise<GeneratedImage>;
+  generateSpeech?: (text: string, options?: SpeechOptions) => Promise<ArrayBuffer>;
+  connectLive?: (callbacks: LiveSessionCallbacks, config: LiveSessionConfig) => Promise<LiveSession>;
+  countTokens?: (messages: ChatMessage[], settings: AppSettings) => Promise<number>;
+  // Documents and queries are embedded differently for retrieval, hence the purpose
+  embedTexts?: (texts: string[], purpose: 'document' | 'query', signal?: AbortSignal) => Promise<Embeddings>;
 }
\ No newline at end of file